@@ -1,75 +1,258 @@
-import { Image } from 'expo-image';
-import { Platform, StyleSheet } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import { Button, StyleSheet, TouchableOpacity, View } from 'react-native';
 
-import { HelloWave } from '@/components/HelloWave';
 import ParallaxScrollView from '@/components/ParallaxScrollView';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { ColorName } from '@/constants/Colors';
+import { useSpeakerConnection } from '@/hooks/useSpeakerConnection';
+import { useSpeakerRegistry } from '@/hooks/useSpeakerRegistry';
+import { useTheme, useThemeColor } from '@/hooks/useThemeColor';
+import { describeError, SpeakerError } from '@/services/speaker/errors';
+import { StatePatch, WifiStatus } from '@/services/speaker/protocol';
+import { ConnectionStatus } from '@/services/speaker/SpeakerConnection';
 
+const VOLUME_STEP = 5;
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+  idle: 'Not connected',
+  connecting: 'Connecting...',
+  connected: 'Connected',
+  reconnecting: 'Reconnecting...',
+  disconnecting: 'Disconnecting...',
+};
+
+const STATUS_COLORS: Record<ConnectionStatus, ColorName> = {
+  idle: 'textMuted',
+  connecting: 'warning',
+  connected: 'success',
+  reconnecting: 'warning',
+  disconnecting: 'warning',
+};
+
+function wifiLabel(status: WifiStatus) {
+  switch (status.state) {
+    case 'connected':
+      return `Wi-Fi: ${status.ssid}`;
+    case 'joining':
+      return `Wi-Fi: joining ${status.ssid}...`;
+    case 'failed':
+      return `Wi-Fi: failed${status.reason ? ` (${status.reason})` : ''}`;
+    default:
+      return 'Wi-Fi: not set up';
+  }
+}
+
+function ControlButton({
+  icon,
+  label,
+  onPress,
+  disabled,
+}: {
+  icon: Parameters<typeof IconSymbol>[0]['name'];
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+}) {
+  const tint = useThemeColor({}, 'tint');
+  return (
+    <TouchableOpacity
+      style={[styles.control, { borderColor: tint }, disabled && styles.disabled]}
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityLabel={label}>
+      <IconSymbol name={icon} size={22} color={tint} />
+    </TouchableOpacity>
+  );
+}
+
+// Subscribes to its own connection so cards update independently.
+function SpeakerCard({ id, canConnect }: { id: string; canConnect: boolean }) {
+  const { connection, state } = useSpeakerConnection(id);
+  const router = useRouter();
+  const { colors } = useTheme();
+  const [controlError, setControlError] = useState<SpeakerError | null>(null);
+  if (!connection || !state) return null;
+
+  const { status, speakerState } = state;
+  const controllable = state.security === 'secured' && speakerState !== null;
+  // Connection failures show up through state.error; a failed control only while the link is up.
+  const error = status === 'connected' ? controlError : state.error;
+  const system = [
+    state.firmwareVersion && `Firmware ${state.firmwareVersion}`,
+    state.wifiStatus && wifiLabel(state.wifiStatus),
+  ].filter(Boolean);
+  const control = (changes: StatePatch) => {
+    setControlError(null);
+    connection.updateSpeakerState(changes).catch((failure) => setControlError(describeError(failure)));
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.card, { borderColor: colors.border }]}
+      onPress={() => router.push({ pathname: '/speaker/[id]', params: { id } })}>
+      <View style={styles.cardHeader}>
+        <ThemedText type="defaultSemiBold" style={styles.cardTitle} numberOfLines={1}>
+          {state.name || id}
+        </ThemedText>
+        <ThemedText style={{ color: colors[STATUS_COLORS[status]] }}>{STATUS_LABELS[status]}</ThemedText>
+      </View>
+
+      {status === 'connected' && state.security === 'pairingRequired' && (
+        <ThemedText style={styles.detail}>Not paired yet. Tap to pair.</ThemedText>
+      )}
+      {speakerState && (
+        <ThemedText style={styles.detail}>
+          {speakerState.playback === 'playing' ? 'Playing' : speakerState.playback === 'paused' ? 'Paused' : 'Stopped'}
+          {` from ${speakerState.source} | Volume ${speakerState.muted ? 'muted' : `${speakerState.volume}%`}`}
+        </ThemedText>
+      )}
+      {system.length > 0 && <ThemedText style={styles.detail}>{system.join(' | ')}</ThemedText>}
+      {error && <ThemedText style={[styles.error, { color: colors.danger }]}>{error.message}</ThemedText>}
+
+      {controllable ? (
+        <View style={styles.controls}>
+          <ControlButton
+            icon={speakerState.playback === 'playing' ? 'pause.fill' : 'play.fill'}
+            label={speakerState.playback === 'playing' ? 'Pause' : 'Play'}
+            onPress={() => control({ playback: speakerState.playback === 'playing' ? 'paused' : 'playing' })}
+          />
+          <ControlButton
+            icon={speakerState.muted ? 'speaker.slash.fill' : 'speaker.wave.2.fill'}
+            label={speakerState.muted ? 'Unmute' : 'Mute'}
+            onPress={() => control({ muted: !speakerState.muted })}
+          />
+          <ControlButton
+            icon="minus"
+            label="Volume down"
+            onPress={() => control({ volume: Math.max(0, speakerState.volume - VOLUME_STEP) })}
+            disabled={speakerState.volume === 0}
+          />
+          <ThemedText style={styles.volume}>{speakerState.volume}</ThemedText>
+          <ControlButton
+            icon="plus"
+            label="Volume up"
+            onPress={() => control({ volume: Math.min(100, speakerState.volume + VOLUME_STEP) })}
+            disabled={speakerState.volume === 100}
+          />
+        </View>
+      ) : (
+        status === 'idle' && (
+          <View style={styles.connect}>
+            <Button title="Connect" onPress={() => connection.reconnect()} disabled={!canConnect} />
+          </View>
+        )
+      )}
+    </TouchableOpacity>
+  );
+}
+
+/**
+ * Home tab: the saved speakers at a glance, with what they are playing, their
+ * firmware and Wi-Fi, and quick playback and volume controls. Tapping a speaker opens
+ * its own screen.
+ */
 export default function HomeScreen() {
+  const { state } = useSpeakerRegistry();
+  const router = useRouter();
+  const { bluetoothState, permissionsGranted, speakerIds, connectedIds } = state;
+  const canConnect = bluetoothState === 'PoweredOn' && !!permissionsGranted;
+  const needsSetup = (bluetoothState !== null && bluetoothState !== 'PoweredOn') || permissionsGranted === false;
+
   return (
     <ParallaxScrollView
       headerBackgroundColor={{ light: '#A1CEDC', dark: '#1D3D47' }}
-      headerImage={
-        <Image
-          source={require('@/assets/images/partial-react-logo.png')}
-          style={styles.reactLogo}
-        />
-      }>
+      headerImage={<IconSymbol size={250} color="#808080" name="hifispeaker.fill" style={styles.headerImage} />}>
       <ThemedView style={styles.titleContainer}>
-        <ThemedText type="title">Welcome!</ThemedText>
-        <HelloWave />
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 1: Try it</ThemedText>
-        <ThemedText>
-          Edit <ThemedText type="defaultSemiBold">app/(tabs)/index.tsx</ThemedText> to see changes.
-          Press{' '}
-          <ThemedText type="defaultSemiBold">
-            {Platform.select({
-              ios: 'cmd + d',
-              android: 'cmd + m',
-              web: 'F12',
-            })}
-          </ThemedText>{' '}
-          to open developer tools.
-        </ThemedText>
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 2: Explore</ThemedText>
-        <ThemedText>
-          {`Tap the Explore tab to learn more about what's included in this starter app.`}
-        </ThemedText>
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 3: Get a fresh start</ThemedText>
-        <ThemedText>
-          {`When you're ready, run `}
-          <ThemedText type="defaultSemiBold">npm run reset-project</ThemedText> to get a fresh{' '}
-          <ThemedText type="defaultSemiBold">app</ThemedText> directory. This will move the current{' '}
-          <ThemedText type="defaultSemiBold">app</ThemedText> to{' '}
-          <ThemedText type="defaultSemiBold">app-example</ThemedText>.
-        </ThemedText>
+        <ThemedText type="title">My Speakers</ThemedText>
+        {speakerIds.length > 0 && (
+          <ThemedText style={styles.detail}>
+            {connectedIds.length} of {speakerIds.length} connected
+          </ThemedText>
+        )}
       </ThemedView>
+
+      {needsSetup && (
+        <ThemedView style={styles.notice}>
+          <ThemedText>Bluetooth needs to be set up before the app can reach your speakers.</ThemedText>
+          <Button title="Set Up Bluetooth" onPress={() => router.push('/onboarding')} />
+        </ThemedView>
+      )}
+
+      {speakerIds.length === 0 ? (
+        <ThemedView style={styles.notice}>
+          <ThemedText>No speakers yet. Scan for one nearby to add it.</ThemedText>
+          <Button title="Add a Speaker" onPress={() => router.push('/ble')} />
+        </ThemedView>
+      ) : (
+        <>
+          {speakerIds.map((id) => (
+            <SpeakerCard key={id} id={id} canConnect={canConnect} />
+          ))}
+          <Button title="Add Another Speaker" onPress={() => router.push('/ble')} />
+        </>
+      )}
+      <Button title="Appearance" onPress={() => router.push('/appearance')} />
     </ParallaxScrollView>
   );
 }
 
 const styles = StyleSheet.create({
+  headerImage: {
+    color: '#808080',
+    bottom: -60,
+    left: -20,
+    position: 'absolute',
+  },
   titleContainer: {
+    gap: 4,
+  },
+  notice: {
+    gap: 8,
+  },
+  card: {
+    gap: 4,
+    padding: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  cardHeader: {
     flexDirection: 'row',
-    alignItems: 'center',
+    justifyContent: 'space-between',
     gap: 8,
   },
-  stepContainer: {
+  cardTitle: {
+    flexShrink: 1,
+  },
+  detail: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  error: {
+    fontSize: 14,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
     gap: 8,
-    marginBottom: 8,
+    marginTop: 8,
   },
-  reactLogo: {
-    height: 178,
-    width: 290,
-    bottom: 0,
-    left: 0,
-    position: 'absolute',
+  control: {
+    padding: 8,
+    borderWidth: 1,
+    borderRadius: 20,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  volume: {
+    minWidth: 32,
+    textAlign: 'center',
+  },
+  connect: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
   },
 });
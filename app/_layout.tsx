@@ -1,13 +1,51 @@
-import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
+import { DarkTheme, DefaultTheme, ThemeProvider, type Theme } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
 
-import { useColorScheme } from '@/hooks/useColorScheme';
+import { AppearanceProvider } from '@/components/AppearanceProvider';
+import { SpeakerRegistryProvider } from '@/components/SpeakerRegistryProvider';
+import { useNotificationNavigation } from '@/hooks/useNotificationNavigation';
+import { useTheme } from '@/hooks/useThemeColor';
+
+function useNavigationTheme(): Theme {
+  const { scheme, highContrast, colors } = useTheme();
+  const base = scheme === 'dark' ? DarkTheme : DefaultTheme;
+  if (!highContrast) {
+    return base;
+  }
+  return {
+    ...base,
+    colors: {
+      ...base.colors,
+      primary: colors.tint,
+      background: colors.background,
+      card: colors.background,
+      text: colors.text,
+      border: colors.border,
+    },
+  };
+}
+
+function RootNavigator() {
+  const { scheme } = useTheme();
+  const navigationTheme = useNavigationTheme();
+  useNotificationNavigation();
+
+  return (
+    <ThemeProvider value={navigationTheme}>
+      <Stack>
+        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="+not-found" />
+      </Stack>
+      {/* The app's scheme may differ from the system's, so "auto" would pick the wrong one. */}
+      <StatusBar style={scheme === 'dark' ? 'light' : 'dark'} />
+    </ThemeProvider>
+  );
+}
 
 export default function RootLayout() {
-  const colorScheme = useColorScheme();
   const [loaded] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
@@ -18,12 +56,10 @@ export default function RootLayout() {
   }
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <AppearanceProvider>
+      <SpeakerRegistryProvider>
+        <RootNavigator />
+      </SpeakerRegistryProvider>
+    </AppearanceProvider>
   );
 }
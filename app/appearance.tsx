@@ -0,0 +1,66 @@
+import { Stack } from 'expo-router';
+import { StyleSheet, Switch, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { ListItem } from '@/components/ui/ListItem';
+import { Spacing } from '@/constants/Theme';
+import { useAppearance } from '@/hooks/useAppearance';
+import { useTheme } from '@/hooks/useThemeColor';
+import { APPEARANCE_MODES, AppearanceMode } from '@/services/appearance';
+
+const MODE_LABELS: Record<AppearanceMode, { title: string; detail: string }> = {
+  system: { title: 'System', detail: 'Follow the light or dark setting of this device.' },
+  light: { title: 'Light', detail: 'Always light.' },
+  dark: { title: 'Dark', detail: 'Always dark, e.g. for dim rooms at night.' },
+};
+
+/** Picks light, dark or the system's appearance, and high contrast, for this app only. */
+export default function AppearanceScreen() {
+  const { preference, setPreference } = useAppearance();
+  const { colors } = useTheme();
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: 'Appearance' }} />
+      {APPEARANCE_MODES.map((mode) => (
+        <ListItem
+          key={mode}
+          title={MODE_LABELS[mode].title}
+          details={[MODE_LABELS[mode].detail]}
+          selected={preference.mode === mode}
+          onPress={() => setPreference({ mode })}
+        />
+      ))}
+      <View style={styles.option}>
+        <View style={styles.optionText}>
+          <ThemedText type="defaultSemiBold">High contrast</ThemedText>
+          <ThemedText style={{ color: colors.textMuted }}>Stronger text, borders and status colors.</ThemedText>
+        </View>
+        <Switch
+          value={preference.highContrast}
+          onValueChange={(highContrast) => setPreference({ highContrast })}
+          trackColor={{ true: colors.tint, false: colors.border }}
+          accessibilityLabel="High contrast"
+        />
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    marginTop: Spacing.md,
+  },
+  optionText: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,209 @@
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import { Button, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { Collapsible } from '@/components/Collapsible';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useSpeakerConnection } from '@/hooks/useSpeakerConnection';
+import { useTheme } from '@/hooks/useThemeColor';
+import { decodeUtf8, describeDescriptor, encodeUtf8, gattName, parseHex, toHex } from '@/services/speaker/gatt';
+import { SpeakerConnection } from '@/services/speaker/SpeakerConnection';
+import { GattCharacteristic, GattService } from '@/services/speaker/transport';
+
+type Encoding = 'hex' | 'utf8';
+
+function label(uuid: string) {
+  const name = gattName(uuid);
+  return name ? `${name} (${uuid})` : uuid;
+}
+
+function CharacteristicPanel({
+  connection,
+  characteristic,
+}: {
+  connection: SpeakerConnection;
+  characteristic: GattCharacteristic;
+}) {
+  const { colors } = useTheme();
+  const { uuid, serviceUuid, properties, descriptors } = characteristic;
+  const [value, setValue] = useState<Uint8Array | null>(null);
+  const [input, setInput] = useState('');
+  const [encoding, setEncoding] = useState<Encoding>('hex');
+  const [monitoring, setMonitoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canRead = properties.includes('read');
+  const canWrite = properties.includes('write') || properties.includes('writeWithoutResponse');
+  const canMonitor = properties.includes('notify') || properties.includes('indicate');
+
+  useEffect(() => {
+    if (!monitoring) return;
+    return connection.monitorCharacteristic(serviceUuid, uuid, (error, value) => {
+      if (error) {
+        setError(error.message);
+        setMonitoring(false);
+      } else if (value) {
+        setValue(value);
+      }
+    });
+  }, [connection, monitoring, serviceUuid, uuid]);
+
+  const run = async (operation: () => Promise<void>) => {
+    setError(null);
+    try {
+      await operation();
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  const read = () => run(async () => setValue(await connection.readCharacteristic(serviceUuid, uuid)));
+
+  const write = () =>
+    run(async () => {
+      const bytes = encoding === 'hex' ? parseHex(input) : encodeUtf8(input);
+      await connection.writeCharacteristic(serviceUuid, uuid, bytes, properties.includes('write'));
+    });
+
+  const text = value && decodeUtf8(value);
+
+  return (
+    <View style={[styles.characteristic, { borderBottomColor: colors.border }]}>
+      <ThemedText type="defaultSemiBold">{label(uuid)}</ThemedText>
+      <ThemedText style={styles.detail}>{properties.join(', ') || 'no properties'}</ThemedText>
+      {descriptors.map((descriptor) => (
+        <ThemedText key={descriptor.uuid} style={styles.detail}>
+          {gattName(descriptor.uuid) ?? descriptor.uuid}: {describeDescriptor(descriptor)}
+        </ThemedText>
+      ))}
+
+      {value && (
+        <View style={styles.value}>
+          <ThemedText style={styles.mono}>{toHex(value) || '(empty)'}</ThemedText>
+          {!!text && <ThemedText>&quot;{text}&quot;</ThemedText>}
+        </View>
+      )}
+      {error && <ThemedText style={{ color: colors.danger }}>{error}</ThemedText>}
+
+      <View style={styles.actions}>
+        {canRead && <Button title="Read" onPress={read} />}
+        {canMonitor && (
+          <Button title={monitoring ? 'Unsubscribe' : 'Subscribe'} onPress={() => setMonitoring(!monitoring)} />
+        )}
+      </View>
+
+      {canWrite && (
+        <View style={styles.actions}>
+          <TextInput
+            style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+            value={input}
+            onChangeText={setInput}
+            placeholder={encoding === 'hex' ? '0a ff 10' : 'Text'}
+            placeholderTextColor={colors.textMuted}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TouchableOpacity onPress={() => setEncoding(encoding === 'hex' ? 'utf8' : 'hex')}>
+            <ThemedText type="link">{encoding === 'hex' ? 'HEX' : 'UTF-8'}</ThemedText>
+          </TouchableOpacity>
+          <Button title="Write" onPress={write} />
+        </View>
+      )}
+    </View>
+  );
+}
+
+export default function DeviceScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { connection, state } = useSpeakerConnection(id);
+  const [services, setServices] = useState<GattService[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { colors } = useTheme();
+
+  const connected = state?.status === 'connected';
+
+  const load = useCallback(async () => {
+    if (!connection) return;
+    setError(null);
+    try {
+      setServices(await connection.listServices());
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  }, [connection]);
+
+  useEffect(() => {
+    if (connected) {
+      load();
+    } else {
+      setServices(null);
+    }
+  }, [connected, load]);
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: state?.name || id }} />
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText style={styles.detail}>{id}</ThemedText>
+        {!connected && <ThemedText>This device is not connected. Connect to it on the BLE tab.</ThemedText>}
+        {error && <ThemedText style={{ color: colors.danger }}>{error}</ThemedText>}
+        {connected && <Button title="Rediscover" onPress={load} />}
+
+        {services?.map((service) => (
+          <Collapsible key={service.uuid} title={label(service.uuid)}>
+            {service.characteristics.length === 0 && (
+              <ThemedText style={styles.detail}>No characteristics.</ThemedText>
+            )}
+            {service.characteristics.map((characteristic) => (
+              <CharacteristicPanel
+                key={characteristic.uuid}
+                connection={connection!}
+                characteristic={characteristic}
+              />
+            ))}
+          </Collapsible>
+        ))}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  characteristic: {
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 2,
+  },
+  detail: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  value: {
+    marginTop: 6,
+  },
+  mono: {
+    fontFamily: 'SpaceMono',
+    fontSize: 13,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 6,
+  },
+  input: {
+    flex: 1,
+    height: 40,
+    borderWidth: 1,
+    paddingHorizontal: 8,
+    borderRadius: 5,
+  },
+});
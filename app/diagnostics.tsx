@@ -0,0 +1,228 @@
+import { Stack } from 'expo-router';
+import { useMemo, useState } from 'react';
+import { Alert, Button, FlatList, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { ColorName } from '@/constants/Colors';
+import { useEventLog } from '@/hooks/useEventLog';
+import { useSpeakerRegistry } from '@/hooks/useSpeakerRegistry';
+import { useTheme } from '@/hooks/useThemeColor';
+import { formatLogDetails, formatLogTime, shareEventLog } from '@/services/speaker/diagnosticsExport';
+import { describeError } from '@/services/speaker/errors';
+import {
+  eventLog,
+  isAtLeast,
+  LOG_CATEGORIES,
+  LOG_LEVELS,
+  LogCategory,
+  LogEntry,
+  LogLevel,
+} from '@/services/speaker/eventLog';
+import { deviceLabel } from '@/services/speaker/SpeakerConnection';
+
+const LEVEL_COLORS: Record<LogLevel, ColorName> = {
+  debug: 'textMuted',
+  info: 'tint',
+  warn: 'warning',
+  error: 'danger',
+};
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  const { colors } = useTheme();
+  return (
+    <TouchableOpacity
+      style={[styles.chip, { borderColor: colors.tint }, selected && { backgroundColor: colors.tint }]}
+      onPress={onPress}>
+      <ThemedText style={selected && [styles.selectedChipText, { color: colors.onTint }]}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+}
+
+function EntryRow({ entry, device }: { entry: LogEntry; device: string | null }) {
+  const { colors } = useTheme();
+  return (
+    <View style={[styles.entry, { borderBottomColor: colors.border }]}>
+      <ThemedText style={styles.entryMeta}>
+        {formatLogTime(entry.time)}{' '}
+        <ThemedText style={[styles.entryMeta, { color: colors[LEVEL_COLORS[entry.level]] }]}>
+          {entry.level.toUpperCase()}
+        </ThemedText>{' '}
+        {entry.category}
+        {device && ` | ${device}`}
+      </ThemedText>
+      <ThemedText>{entry.message}</ThemedText>
+      {entry.details && <ThemedText style={styles.entryDetails}>{formatLogDetails(entry.details)}</ThemedText>}
+    </View>
+  );
+}
+
+export default function DiagnosticsScreen() {
+  const entries = useEventLog();
+  const { registry } = useSpeakerRegistry();
+  const { colors } = useTheme();
+  const [minLevel, setMinLevel] = useState<LogLevel>('info');
+  const [categories, setCategories] = useState<LogCategory[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+
+  const nameOf = (id: string) => deviceLabel({ id, name: registry.getConnection(id)?.getState().name ?? null });
+
+  const deviceIds = useMemo(
+    () => [...new Set(entries.map((entry) => entry.deviceId).filter((id): id is string => id !== null))],
+    [entries]
+  );
+
+  const shown = useMemo(() => {
+    const search = query.trim().toLowerCase();
+    return entries
+      .filter(
+        (entry) =>
+          isAtLeast(entry.level, minLevel) &&
+          (categories.length === 0 || categories.includes(entry.category)) &&
+          (!deviceId || entry.deviceId === deviceId) &&
+          (!search ||
+            entry.message.toLowerCase().includes(search) ||
+            (!!entry.details && formatLogDetails(entry.details).toLowerCase().includes(search)))
+      )
+      .reverse();
+  }, [entries, minLevel, categories, deviceId, query]);
+
+  const toggleCategory = (category: LogCategory) =>
+    setCategories(
+      categories.includes(category) ? categories.filter((c) => c !== category) : [...categories, category]
+    );
+
+  const share = async (format: 'json' | 'text') => {
+    try {
+      await shareEventLog(format);
+    } catch (error) {
+      Alert.alert('Export Failed', describeError(error).message);
+    }
+  };
+
+  const clear = () =>
+    Alert.alert('Clear Log', 'Delete all recorded events?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: () => eventLog.clear() },
+    ]);
+
+  const filters = (
+    <View style={styles.filters}>
+      <ThemedText type="defaultSemiBold">Level</ThemedText>
+      <View style={styles.chips}>
+        {LOG_LEVELS.map((level) => (
+          <Chip key={level} label={`${level}+`} selected={level === minLevel} onPress={() => setMinLevel(level)} />
+        ))}
+      </View>
+      <ThemedText type="defaultSemiBold">Category</ThemedText>
+      <View style={styles.chips}>
+        {LOG_CATEGORIES.map((category) => (
+          <Chip
+            key={category}
+            label={category}
+            selected={categories.includes(category)}
+            onPress={() => toggleCategory(category)}
+          />
+        ))}
+      </View>
+      {deviceIds.length > 0 && (
+        <>
+          <ThemedText type="defaultSemiBold">Speaker</ThemedText>
+          <View style={styles.chips}>
+            <Chip label="all" selected={deviceId === null} onPress={() => setDeviceId(null)} />
+            {deviceIds.map((id) => (
+              <Chip key={id} label={nameOf(id)} selected={id === deviceId} onPress={() => setDeviceId(id)} />
+            ))}
+          </View>
+        </>
+      )}
+      <TextInput
+        style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Search messages and details"
+        placeholderTextColor={colors.textMuted}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      <View style={styles.actions}>
+        <Button title="Share JSON" onPress={() => share('json')} disabled={entries.length === 0} />
+        <Button title="Share Text" onPress={() => share('text')} disabled={entries.length === 0} />
+        <Button title="Clear" onPress={clear} color={colors.warning} disabled={entries.length === 0} />
+      </View>
+      <ThemedText style={styles.hint}>
+        Showing {shown.length} of {entries.length} events, newest first. Exports include every event.
+      </ThemedText>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: 'Diagnostics' }} />
+      <FlatList
+        data={shown}
+        keyExtractor={(entry) => String(entry.id)}
+        renderItem={({ item }) => <EntryRow entry={item} device={item.deviceId && nameOf(item.deviceId)} />}
+        ListHeaderComponent={filters}
+        ListEmptyComponent={<ThemedText style={styles.hint}>No events match the filters.</ThemedText>}
+        contentContainerStyle={styles.list}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  list: {
+    padding: 20,
+  },
+  filters: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  selectedChipText: {
+    fontWeight: '600',
+  },
+  input: {
+    height: 40,
+    borderWidth: 1,
+    paddingHorizontal: 8,
+    borderRadius: 5,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  entry: {
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  entryMeta: {
+    fontSize: 12,
+    opacity: 0.8,
+  },
+  entryDetails: {
+    fontSize: 12,
+    fontFamily: 'SpaceMono',
+    opacity: 0.7,
+  },
+  hint: {
+    opacity: 0.7,
+  },
+});
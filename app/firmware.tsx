@@ -0,0 +1,218 @@
+import { Stack } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Button, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useFirmwareUpdate } from '@/hooks/useFirmwareUpdate';
+import { useSpeakerConnection } from '@/hooks/useSpeakerConnection';
+import { useTheme } from '@/hooks/useThemeColor';
+import { describeError } from '@/services/speaker/errors';
+import { compareVersions } from '@/services/speaker/firmware';
+import {
+  createTestImage,
+  downloadRelease,
+  fetchLatestRelease,
+  FirmwareRelease,
+  isUpdateServerConfigured,
+} from '@/services/speaker/firmwareReleases';
+import { FirmwareUpdateState } from '@/services/speaker/FirmwareUpdater';
+import { FirmwareInfo } from '@/services/speaker/protocol';
+
+function formatBytes(bytes: number) {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatDuration(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes} min ${seconds % 60} s` : `${seconds} s`;
+}
+
+function nextPatchVersion(version: string) {
+  const [major, minor, patch] = version.split('.').map(Number);
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+const ACTIVE_PHASES: FirmwareUpdateState['phase'][] = [
+  'starting',
+  'transferring',
+  'waitingForSpeaker',
+  'installing',
+  'rebooting',
+  'verifying',
+];
+
+function UpdateProgress({ update, onCancel }: { update: FirmwareUpdateState; onCancel: () => void }) {
+  const { colors } = useTheme();
+  const fraction = update.totalBytes > 0 ? update.sentBytes / update.totalBytes : 0;
+  const cancellable = ['starting', 'transferring', 'waitingForSpeaker'].includes(update.phase);
+
+  return (
+    <View style={styles.progress}>
+      <ThemedText type="defaultSemiBold">Updating to {update.targetVersion}</ThemedText>
+      <View style={[styles.progressTrack, { borderColor: colors.tint }]}>
+        <View style={[styles.progressBar, { width: `${fraction * 100}%`, backgroundColor: colors.tint }]} />
+      </View>
+      <ThemedText style={styles.hint}>
+        {formatBytes(update.sentBytes)} of {formatBytes(update.totalBytes)} ({Math.floor(fraction * 100)}%)
+        {update.bytesPerSecond !== null && ` | ${formatBytes(update.bytesPerSecond)}/s`}
+        {update.etaSeconds !== null && ` | about ${formatDuration(update.etaSeconds)} left`}
+      </ThemedText>
+      {update.message && <ThemedText>{update.message}</ThemedText>}
+      {update.phase !== 'transferring' && update.phase !== 'starting' && <ActivityIndicator />}
+      {cancellable && <Button title="Cancel Update" onPress={onCancel} color={colors.warning} />}
+    </View>
+  );
+}
+
+export default function FirmwareScreen() {
+  const { connection, state } = useSpeakerConnection();
+  const { updater, state: update } = useFirmwareUpdate();
+  const { colors } = useTheme();
+  const [firmware, setFirmware] = useState<FirmwareInfo | null>(null);
+  const [release, setRelease] = useState<FirmwareRelease | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const secured = state?.security === 'secured';
+  const updating = !!update && ACTIVE_PHASES.includes(update.phase);
+
+  const loadFirmware = useCallback(async () => {
+    if (!connection) return;
+    try {
+      setFirmware(await connection.request('getFirmware', {}));
+    } catch (error) {
+      setError(describeError(error).message);
+    }
+  }, [connection]);
+
+  useEffect(() => {
+    if (secured && !updating) {
+      loadFirmware();
+    }
+  }, [secured, updating, loadFirmware]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      setError(describeError(error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const checkForUpdates = () => run(async () => setRelease(await fetchLatestRelease()));
+
+  const install = (image: () => Promise<Uint8Array>, version: string) =>
+    run(async () => {
+      if (!updater) return;
+      await updater.update(await image(), version);
+      setRelease(null);
+    });
+
+  if (!connection || !state) {
+    return (
+      <ThemedView style={styles.container}>
+        <Stack.Screen options={{ title: 'Firmware' }} />
+        <ThemedText>Connect to a speaker on the BLE tab to update its firmware.</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const updateAvailable = !!release && !!firmware && compareVersions(release.version, firmware.version) > 0;
+  const canStart = secured && !!firmware && !updating && !busy;
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: 'Firmware' }} />
+      <ThemedText type="subtitle">{state.name || connection.id}</ThemedText>
+      <ThemedText>Installed version: {firmware?.version ?? 'unknown'}</ThemedText>
+      {firmware?.transfer && !updating && (
+        <ThemedText style={styles.hint}>
+          The speaker holds {Math.floor((firmware.transfer.received / firmware.transfer.size) * 100)}% of firmware{' '}
+          {firmware.transfer.version}; updating to it again resumes the transfer.
+        </ThemedText>
+      )}
+      {!secured && !updating && <ThemedText style={styles.hint}>Pair with the speaker to update it.</ThemedText>}
+      {error && <ThemedText style={{ color: colors.danger }}>{error}</ThemedText>}
+
+      {update && update.phase !== 'idle' && (
+        updating ? (
+          <UpdateProgress update={update} onCancel={() => updater?.cancel()} />
+        ) : (
+          <ThemedText style={update.phase === 'done' ? undefined : { color: colors.danger }}>
+            {update.message}
+          </ThemedText>
+        )
+      )}
+
+      {isUpdateServerConfigured() ? (
+        <View style={styles.buttonContainer}>
+          <Button title={busy && !updating ? 'Checking...' : 'Check for Updates'} onPress={checkForUpdates} disabled={!canStart} />
+        </View>
+      ) : (
+        <ThemedText style={styles.hint}>No firmware update server is configured.</ThemedText>
+      )}
+
+      {release && !updating && (
+        updateAvailable ? (
+          <>
+            <ThemedText type="defaultSemiBold">
+              Firmware {release.version} is available ({formatBytes(release.size)}).
+            </ThemedText>
+            {release.notes && <ThemedText style={styles.hint}>{release.notes}</ThemedText>}
+            <View style={styles.buttonContainer}>
+              <Button
+                title={`Install ${release.version}`}
+                onPress={() => install(() => downloadRelease(release), release.version)}
+                disabled={!canStart}
+              />
+            </View>
+          </>
+        ) : (
+          <ThemedText>The speaker is up to date.</ThemedText>
+        )
+      )}
+
+      {__DEV__ && firmware && (
+        <View style={styles.buttonContainer}>
+          <Button
+            title={`Send Test Image as ${nextPatchVersion(firmware.version)}`}
+            onPress={() => install(async () => createTestImage(), nextPatchVersion(firmware.version))}
+            disabled={!canStart}
+          />
+        </View>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 20,
+    gap: 10,
+  },
+  progress: {
+    gap: 8,
+    marginVertical: 10,
+  },
+  progressTrack: {
+    height: 12,
+    borderWidth: 1,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  progressBar: {
+    height: '100%',
+  },
+  buttonContainer: {
+    marginVertical: 4,
+  },
+  hint: {
+    opacity: 0.7,
+  },
+});
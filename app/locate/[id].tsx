@@ -0,0 +1,242 @@
+import * as Haptics from 'expo-haptics';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Button, ScrollView, StyleSheet, Switch, View } from 'react-native';
+
+import { SpeakerErrorNotice } from '@/components/SpeakerErrorNotice';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { ColorName } from '@/constants/Colors';
+import { useProximity } from '@/hooks/useProximity';
+import { useSpeakerConnection } from '@/hooks/useSpeakerConnection';
+import { useSpeakerRegistry } from '@/hooks/useSpeakerRegistry';
+import { useTheme } from '@/hooks/useThemeColor';
+import { describeError, SpeakerError, speakerError } from '@/services/speaker/errors';
+import { estimateDistance, ProximityLevel, proximityLevel, ProximityTrend } from '@/services/speaker/proximity';
+import { SpeakerConnection } from '@/services/speaker/SpeakerConnection';
+
+const LEVEL_LABELS: Record<ProximityLevel, string> = {
+  immediate: 'Right here',
+  near: 'Near',
+  far: 'Far',
+  weak: 'Very far',
+  lost: 'Out of range',
+};
+
+// Hot to cold.
+const LEVEL_COLORS: Record<ProximityLevel, ColorName> = {
+  immediate: 'danger',
+  near: 'warning',
+  far: 'warning',
+  weak: 'tint',
+  lost: 'textMuted',
+};
+
+const TREND_LABELS: Record<ProximityTrend, string> = {
+  warmer: 'Warmer ▲',
+  colder: 'Colder ▼',
+  steady: 'Steady',
+};
+
+// Haptic pulses speed up and get stronger the closer the speaker is, like a metal detector.
+const PULSES: Partial<Record<ProximityLevel, { intervalMs: number; style: Haptics.ImpactFeedbackStyle }>> = {
+  immediate: { intervalMs: 250, style: Haptics.ImpactFeedbackStyle.Heavy },
+  near: { intervalMs: 600, style: Haptics.ImpactFeedbackStyle.Medium },
+  far: { intervalMs: 1200, style: Haptics.ImpactFeedbackStyle.Light },
+  weak: { intervalMs: 2000, style: Haptics.ImpactFeedbackStyle.Light },
+};
+
+// Range of the meter, in dBm.
+const METER_MIN_RSSI = -100;
+const METER_MAX_RSSI = -40;
+
+function formatDistance(rssi: number) {
+  const metres = estimateDistance(rssi);
+  return metres < 10 ? `about ${metres.toFixed(1)} m` : `about ${Math.round(metres)} m`;
+}
+
+/**
+ * Helps find the physical speaker behind a list entry: follows its signal strength
+ * as a hotter/colder meter with haptic pulses, and asks it to chime and blink. Meant
+ * for installers standing among several identical speakers.
+ */
+export default function LocateScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { registry, state: registryState } = useSpeakerRegistry();
+  const { connection, state } = useSpeakerConnection(id);
+  const { rssi, trend, name, advertisement, connected, chooseSpeaker } = useProximity(id);
+  const { colors } = useTheme();
+  const [hapticsEnabled, setHapticsEnabled] = useState(true);
+  const [identifying, setIdentifying] = useState(false);
+  const [identifyError, setIdentifyError] = useState<SpeakerError | null>(null);
+  const [identifiedUntil, setIdentifiedUntil] = useState<number | null>(null);
+
+  const level = proximityLevel(rssi);
+  const levelColor = colors[LEVEL_COLORS[level]];
+  const fill = rssi === null ? 0 : (rssi - METER_MIN_RSSI) / (METER_MAX_RSSI - METER_MIN_RSSI);
+
+  useEffect(() => {
+    const pulse = PULSES[level];
+    if (!hapticsEnabled || !pulse) return;
+    const timer = setInterval(() => Haptics.impactAsync(pulse.style), pulse.intervalMs);
+    return () => clearInterval(timer);
+  }, [level, hapticsEnabled]);
+
+  useEffect(() => {
+    if (hapticsEnabled && trend === 'warmer') {
+      Haptics.selectionAsync();
+    }
+  }, [trend, hapticsEnabled]);
+
+  useEffect(() => {
+    if (identifiedUntil === null) return;
+    const timer = setTimeout(() => setIdentifiedUntil(null), Math.max(0, identifiedUntil - Date.now()));
+    return () => clearTimeout(timer);
+  }, [identifiedUntil]);
+
+  const chime = async (target: SpeakerConnection) => {
+    const { status, error } = target.getState();
+    if (status !== 'connected') {
+      setIdentifyError(error ?? speakerError('outOfRange'));
+      return;
+    }
+    const { durationMs } = await target.request('identify', {});
+    setIdentifiedUntil(Date.now() + durationMs);
+    if (hapticsEnabled) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+  };
+
+  const found = registryState.foundDevices.find((device) => device.id === id);
+
+  // Identifying needs a link; speakers that are only advertising are connected to first.
+  const identify = async () => {
+    setIdentifying(true);
+    setIdentifyError(null);
+    try {
+      if (connection) {
+        if (state?.status !== 'connected') {
+          await connection.connect();
+        }
+        await chime(connection);
+      } else if (found) {
+        // A speaker that was only scanned is not saved just because it was asked to chime.
+        const temporary = registry.createTemporaryConnection(found);
+        try {
+          await temporary.connect();
+          await chime(temporary);
+        } finally {
+          await temporary.disconnect();
+          temporary.dispose();
+        }
+      } else {
+        setIdentifyError(speakerError('outOfRange'));
+      }
+    } catch (error) {
+      setIdentifyError(describeError(error));
+    } finally {
+      setIdentifying(false);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: 'Find Speaker' }} />
+      <ScrollView contentContainerStyle={styles.content}>
+        <View>
+          <ThemedText type="subtitle">{name || id}</ThemedText>
+          {advertisement && <ThemedText style={styles.detail}>Serial {advertisement.serial}</ThemedText>}
+          <ThemedText style={styles.detail}>
+            {connected
+              ? 'Connected; reading the link signal.'
+              : chooseSpeaker
+                ? "Pick it in the browser's list of nearby speakers to make it chime."
+                : 'Listening for its advertisements.'}
+          </ThemedText>
+        </View>
+        {chooseSpeaker && <Button title="Search for Speaker" onPress={chooseSpeaker} />}
+
+        <View style={styles.meter}>
+          <ThemedText type="title" style={{ color: levelColor }}>
+            {LEVEL_LABELS[level]}
+          </ThemedText>
+          <View style={[styles.track, { backgroundColor: colors.surfaceRaised }]}>
+            <View
+              style={[
+                styles.fill,
+                { width: `${Math.round(Math.min(1, Math.max(0, fill)) * 100)}%`, backgroundColor: levelColor },
+              ]}
+            />
+          </View>
+          {rssi === null ? (
+            <ActivityIndicator />
+          ) : (
+            <>
+              <ThemedText type="defaultSemiBold">{TREND_LABELS[trend]}</ThemedText>
+              <ThemedText style={styles.detail}>
+                {rssi} dBm, {formatDistance(rssi)}
+              </ThemedText>
+            </>
+          )}
+        </View>
+        <ThemedText style={styles.hint}>
+          Distances are rough: walls, people and the way you hold the phone all change the signal. Walk in the
+          direction that makes it warmer.
+        </ThemedText>
+
+        <View style={styles.row}>
+          <ThemedText>Vibrate as it gets closer</ThemedText>
+          <Switch value={hapticsEnabled} onValueChange={setHapticsEnabled} />
+        </View>
+
+        {identifyError && <SpeakerErrorNotice error={identifyError} onRetry={identify} />}
+        {identifiedUntil !== null && (
+          <ThemedText style={{ color: colors.success }}>The speaker is chiming and blinking its light.</ThemedText>
+        )}
+        <Button
+          title={identifying ? 'Identifying...' : 'Play Chime and Blink'}
+          onPress={identify}
+          disabled={identifying || (rssi === null && !connected && !found)}
+        />
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+  },
+  detail: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  meter: {
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 20,
+  },
+  track: {
+    alignSelf: 'stretch',
+    height: 16,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 8,
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+});
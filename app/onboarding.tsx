@@ -0,0 +1,248 @@
+import { Stack, useRouter } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, AppState, Button, Platform, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { ColorName } from '@/constants/Colors';
+import { useSpeakerRegistry } from '@/hooks/useSpeakerRegistry';
+import { useTheme } from '@/hooks/useThemeColor';
+import { getNotificationPermission, requestNotificationPermission } from '@/services/speaker/notifications';
+import {
+  BluetoothPermission,
+  getBluetoothPermissions,
+  openAppSettings,
+  openBluetoothSettings,
+  PermissionStatus,
+  requestBluetoothPermission,
+} from '@/services/speaker/permissions';
+import { AdapterState } from '@/services/speaker/transport';
+
+type StepStatus = 'done' | 'todo' | 'blocked' | 'checking';
+
+const STATUS_LABELS: Record<StepStatus, string> = {
+  done: 'Done',
+  todo: 'Needed',
+  blocked: 'Blocked',
+  checking: 'Checking...',
+};
+
+const STATUS_COLORS: Record<StepStatus, ColorName> = {
+  done: 'success',
+  todo: 'warning',
+  blocked: 'danger',
+  checking: 'textMuted',
+};
+
+const PERMISSION_STEPS: Record<PermissionStatus, StepStatus> = {
+  granted: 'done',
+  denied: 'todo',
+  blocked: 'blocked',
+};
+
+function Step({
+  title,
+  reason,
+  status,
+  action,
+}: {
+  title: string;
+  reason: string;
+  status: StepStatus;
+  action?: { title: string; onPress: () => void; disabled?: boolean };
+}) {
+  const { colors } = useTheme();
+  return (
+    <View style={[styles.step, { borderColor: colors.border }]}>
+      <View style={styles.stepHeader}>
+        <ThemedText type="defaultSemiBold">{title}</ThemedText>
+        <ThemedText style={{ color: colors[STATUS_COLORS[status]] }}>{STATUS_LABELS[status]}</ThemedText>
+      </View>
+      <ThemedText style={styles.reason}>{reason}</ThemedText>
+      {action && status !== 'done' && <Button title={action.title} onPress={action.onPress} disabled={action.disabled} />}
+    </View>
+  );
+}
+
+function BluetoothStep({ bluetoothState }: { bluetoothState: AdapterState | null }) {
+  switch (bluetoothState) {
+    case 'PoweredOn':
+      return <Step title="Bluetooth" reason="Bluetooth is on." status="done" />;
+    case 'PoweredOff':
+      return (
+        <Step
+          title="Bluetooth"
+          reason="Speakers are set up and controlled over Bluetooth. Turn it on to continue."
+          status="todo"
+          action={{ title: 'Turn On Bluetooth', onPress: openBluetoothSettings }}
+        />
+      );
+    case 'Unauthorized':
+      return (
+        <Step
+          title="Bluetooth access"
+          reason="The app was not allowed to use Bluetooth. Allow it in Settings to find and control your speakers."
+          status="blocked"
+          action={{ title: 'Open Settings', onPress: openAppSettings }}
+        />
+      );
+    case 'Unsupported':
+      return (
+        <Step
+          title="Bluetooth"
+          reason={
+            Platform.OS === 'web'
+              ? 'This browser does not support Web Bluetooth, which the speakers need. Open the app in Chrome or ' +
+                'Edge, on a page served over HTTPS.'
+              : 'This device does not support Bluetooth Low Energy, which the speakers need.'
+          }
+          status="blocked"
+        />
+      );
+    default:
+      return <Step title="Bluetooth" reason="Waiting for Bluetooth to start." status="checking" />;
+  }
+}
+
+/**
+ * Walks the user through what BLE needs before the BLE tab can be used: Bluetooth
+ * switched on and allowed, and the runtime permissions of this Android version, each
+ * with the reason the app asks for it. Permissions the system no longer asks for link
+ * to the app's settings. Updates live as the adapter state changes and when the user
+ * returns from Settings. Notifications are offered as well, but are optional.
+ */
+export default function OnboardingScreen() {
+  const { registry, state } = useSpeakerRegistry();
+  const router = useRouter();
+  const [permissions, setPermissions] = useState<BluetoothPermission[] | null>(null);
+  const [notifications, setNotifications] = useState<PermissionStatus | null>(null);
+  const [requesting, setRequesting] = useState(false);
+
+  const { bluetoothState, permissionsGranted } = state;
+  const ready = bluetoothState === 'PoweredOn' && permissionsGranted === true;
+
+  const refresh = useCallback(async () => {
+    setPermissions(await getBluetoothPermissions());
+    setNotifications(await getNotificationPermission());
+    if (registry.getState().bluetoothState === 'PoweredOn') {
+      await registry.refreshPermissions();
+    }
+  }, [registry]);
+
+  useEffect(() => {
+    refresh();
+    const subscription = AppState.addEventListener('change', (appState) => {
+      if (appState === 'active') refresh();
+    });
+    return () => subscription.remove();
+  }, [refresh]);
+
+  const allow = async ({ permission }: BluetoothPermission) => {
+    setRequesting(true);
+    try {
+      await requestBluetoothPermission(permission);
+      await refresh();
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const allowNotifications = async () => {
+    setRequesting(true);
+    try {
+      setNotifications(await requestNotificationPermission());
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const finish = () => (router.canGoBack() ? router.back() : router.replace('/ble'));
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: 'Set Up Bluetooth' }} />
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText>
+          The app talks to your speakers over Bluetooth Low Energy. A few things need to be in place first.
+        </ThemedText>
+
+        <BluetoothStep bluetoothState={bluetoothState} />
+
+        {permissions === null ? (
+          <ActivityIndicator />
+        ) : (
+          permissions.map((permission) => (
+            <Step
+              key={permission.permission}
+              title={permission.title}
+              reason={
+                permission.status === 'blocked'
+                  ? `${permission.reason} Android will not ask again; allow it under Permissions in Settings.`
+                  : permission.reason
+              }
+              status={PERMISSION_STEPS[permission.status]}
+              action={
+                permission.status === 'blocked'
+                  ? { title: 'Open Settings', onPress: openAppSettings }
+                  : { title: 'Allow', onPress: () => allow(permission), disabled: requesting }
+              }
+            />
+          ))
+        )}
+
+        {notifications !== null && (
+          // Optional: the speakers work without it, so it does not hold up the rest.
+          <Step
+            title="Notifications (optional)"
+            reason="Tells you when a speaker goes offline, finishes a firmware update, or sounds an alarm or timer."
+            status={PERMISSION_STEPS[notifications]}
+            action={
+              notifications === 'blocked'
+                ? { title: 'Open Settings', onPress: openAppSettings }
+                : { title: 'Allow', onPress: allowNotifications, disabled: requesting }
+            }
+          />
+        )}
+
+        {ready ? (
+          <View style={styles.finish}>
+            <ThemedText type="defaultSemiBold">All set. You can now add speakers.</ThemedText>
+            <Button title="Continue" onPress={finish} />
+          </View>
+        ) : (
+          permissionsGranted === false &&
+          permissions?.every(({ status }) => status === 'granted') && (
+            // Covers platforms whose permissions are not listed above.
+            <Button title="Check Again" onPress={() => registry.requestPermissions()} />
+          )
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+  },
+  step: {
+    gap: 6,
+    padding: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  stepHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  reason: {
+    opacity: 0.8,
+  },
+  finish: {
+    gap: 8,
+  },
+});
@@ -0,0 +1,105 @@
+import { Stack, useRouter } from 'expo-router';
+import { useState } from 'react';
+import { ActivityIndicator, Button, StyleSheet, TextInput, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useSpeakerConnection } from '@/hooks/useSpeakerConnection';
+import { useTheme } from '@/hooks/useThemeColor';
+import { describeError } from '@/services/speaker/errors';
+import { normalizePairingCode, PAIRING_CODE_LENGTH } from '@/services/speaker/secureChannel';
+
+export default function PairScreen() {
+  const { connection, state } = useSpeakerConnection();
+  const router = useRouter();
+  const { colors } = useTheme();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const pairing = state?.security === 'pairing' || state?.security === 'securing';
+
+  const pair = async () => {
+    if (!connection) return;
+    setError(null);
+    try {
+      await connection.pair(code);
+      router.back();
+    } catch (error) {
+      setError(describeError(error).message);
+    }
+  };
+
+  if (!connection || !state?.device) {
+    return (
+      <ThemedView style={styles.container}>
+        <Stack.Screen options={{ title: 'Pair Speaker' }} />
+        <ThemedText>Connect to a speaker on the BLE tab to pair with it.</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  if (state.security === 'secured') {
+    return (
+      <ThemedView style={styles.container}>
+        <Stack.Screen options={{ title: 'Pair Speaker' }} />
+        <ThemedText>{state.name || connection.id} is paired.</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: 'Pair Speaker' }} />
+      <ThemedText type="subtitle">Pair with {state.name || connection.id}</ThemedText>
+      <ThemedText style={styles.hint}>
+        Enter the {PAIRING_CODE_LENGTH}-digit code shown on the speaker&apos;s display or printed under its QR
+        code. Settings and Wi-Fi passwords are encrypted with a key only this phone and the speaker know.
+      </ThemedText>
+      <TextInput
+        style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+        value={code}
+        onChangeText={setCode}
+        placeholder="123 456"
+        placeholderTextColor={colors.textMuted}
+        keyboardType="number-pad"
+        maxLength={PAIRING_CODE_LENGTH + 1}
+        autoFocus
+        editable={!pairing}
+      />
+      {error && <ThemedText style={{ color: colors.danger }}>{error}</ThemedText>}
+      {pairing ? (
+        <ActivityIndicator size="large" style={styles.progress} />
+      ) : (
+        <View style={styles.buttonContainer}>
+          <Button title="Pair" onPress={pair} disabled={!normalizePairingCode(code)} />
+        </View>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 20,
+    gap: 10,
+  },
+  input: {
+    height: 50,
+    borderWidth: 1,
+    paddingHorizontal: 10,
+    borderRadius: 5,
+    fontSize: 24,
+    letterSpacing: 4,
+    textAlign: 'center',
+  },
+  buttonContainer: {
+    marginVertical: 4,
+  },
+  progress: {
+    marginVertical: 20,
+  },
+  hint: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,254 @@
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Button, ScrollView, StyleSheet, View } from 'react-native';
+
+import { SpeakerErrorNotice } from '@/components/SpeakerErrorNotice';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useSpeakerConnection } from '@/hooks/useSpeakerConnection';
+import { useSpeakerRegistry } from '@/hooks/useSpeakerRegistry';
+import { useTheme } from '@/hooks/useThemeColor';
+import { describeError, SpeakerError } from '@/services/speaker/errors';
+import { DiscoveredSpeaker } from '@/services/speaker/ScanEngine';
+import { parseSetupParams, SetupLink } from '@/services/speaker/setupLink';
+import { SpeakerRegistry } from '@/services/speaker/SpeakerRegistry';
+
+// How long to look for the speaker before offering to try again.
+const SEARCH_TIMEOUT_MS = 30000;
+const SEARCH_POLL_MS = 500;
+
+type SearchMatch = { id: string; discovered: DiscoveredSpeaker | null };
+
+// Adds a speaker that was only scanned to the registry; a saved one is selected instead.
+function connectToMatch(registry: SpeakerRegistry, { id, discovered }: SearchMatch) {
+  if (discovered) {
+    registry.connect(discovered).catch(() => {});
+  } else {
+    registry.select(id);
+    registry.getConnection(id)?.connect().catch(() => {});
+  }
+}
+
+// Connects to and pairs with the speaker once it has been found.
+function PairingStep({ id, link }: { id: string; link: SetupLink }) {
+  const { connection, state } = useSpeakerConnection(id);
+  const [pairError, setPairError] = useState<SpeakerError | null>(null);
+  const triedCode = useRef(false);
+  const router = useRouter();
+  const { colors } = useTheme();
+
+  // A code from the link is tried once; if the speaker rejects it, the user types it in.
+  const { pairingCode } = link;
+  const pairingRequired = state?.status === 'connected' && state.security === 'pairingRequired';
+  useEffect(() => {
+    if (!connection || !pairingRequired || !pairingCode || triedCode.current) return;
+    triedCode.current = true;
+    connection.pair(pairingCode).catch((error) => setPairError(describeError(error)));
+  }, [connection, pairingRequired, pairingCode]);
+
+  if (!connection || !state) return null;
+
+  if (state.status !== 'connected') {
+    if (state.status === 'idle' && state.error) {
+      return <SpeakerErrorNotice error={state.error} onRetry={() => connection.reconnect()} />;
+    }
+    return <Progress message={state.statusMessage} />;
+  }
+  if (state.security === 'secured') {
+    return (
+      <>
+        <ThemedText style={{ color: colors.success }}>
+          {state.name || link.serial} is paired with this phone.
+        </ThemedText>
+        <Button title="Set up Wi-Fi" onPress={() => router.replace('/wifi')} />
+        <Button title="Open Speaker" onPress={() => router.replace({ pathname: '/speaker/[id]', params: { id } })} />
+      </>
+    );
+  }
+  if (state.security === 'pairingRequired' && (!pairingCode || pairError)) {
+    return (
+      <>
+        {pairError && <ThemedText style={{ color: colors.danger }}>{pairError.message}</ThemedText>}
+        <Button title="Enter Pairing Code" onPress={() => router.push('/pair')} />
+      </>
+    );
+  }
+  return <Progress message="Pairing..." />;
+}
+
+function Progress({ message }: { message: string }) {
+  return (
+    <>
+      <ActivityIndicator size="large" style={styles.progress} />
+      <ThemedText style={styles.progressMessage}>{message}</ThemedText>
+    </>
+  );
+}
+
+/**
+ * Opened from a setup link (see services/speaker/setupLink.ts), usually by scanning
+ * the QR code on the speaker: finds the speaker advertising the link's serial number,
+ * connects and pairs with it, so installers don't have to pick it out of a list.
+ */
+export default function SetupScreen() {
+  const params = useLocalSearchParams<{ serial?: string; name?: string; code?: string }>();
+  const link = parseSetupParams(params);
+  const serial = link?.serial ?? null;
+  const { registry, state: registryState } = useSpeakerRegistry();
+  const [speakerId, setSpeakerId] = useState<string | null>(null);
+  const [timedOut, setTimedOut] = useState(false);
+  // When the device chooser was opened, or null while it is not.
+  const [choosingSince, setChoosingSince] = useState<number | null>(null);
+  const router = useRouter();
+
+  const { bluetoothState, permissionsGranted, scanning, foundDevices, speakerIds } = registryState;
+  const ready = bluetoothState === 'PoweredOn' && !!permissionsGranted;
+  const { scanOpensChooser } = registry;
+
+  // Searches with a scan of its own, stopped once the speaker is found, or with one that
+  // is already running, e.g. from the BLE tab, which is left to whoever started it.
+  // Browsers only open their device chooser from a button press; see chooseSpeaker.
+  useEffect(() => {
+    if (!serial || !ready || speakerId !== null || timedOut || scanOpensChooser) return;
+
+    let startedScan = false;
+    const stopOwnScan = () => {
+      if (startedScan) {
+        startedScan = false;
+        registry.stopScan();
+      }
+    };
+
+    const search = () => {
+      const match = registry.findBySerial(serial);
+      if (!match) return;
+      setSpeakerId(match.id);
+      stopOwnScan();
+      connectToMatch(registry, match);
+    };
+
+    if (!registry.getState().scanning) {
+      registry.startScan('continuous');
+      startedScan = true;
+    }
+    search();
+    const poll = setInterval(search, SEARCH_POLL_MS);
+    const timeout = setTimeout(() => setTimedOut(true), SEARCH_TIMEOUT_MS);
+    return () => {
+      clearInterval(poll);
+      clearTimeout(timeout);
+      stopOwnScan();
+    };
+  }, [registry, serial, ready, speakerId, timedOut, scanOpensChooser]);
+
+  const chooseSpeaker = () => {
+    try {
+      registry.startScan('timed');
+      setChoosingSince(Date.now());
+    } catch {
+      // The adapter is not ready; the registry reports why.
+    }
+  };
+
+  // Browsers do not share what speakers advertise, so the speaker picked in the chooser
+  // is taken to be the one from the link. Saved speakers are not listed as found, but
+  // are marked as seen. A chooser that was dismissed picks nothing.
+  useEffect(() => {
+    if (choosingSince === null || scanning) return;
+    setChoosingSince(null);
+    const [found] = foundDevices;
+    const saved = speakerIds.find((id) => (registry.getConnection(id)?.getState().lastSeenAt ?? 0) >= choosingSince);
+    let match: SearchMatch | null = null;
+    if (found) {
+      match = { id: found.id, discovered: found };
+    } else if (saved !== undefined) {
+      match = { id: saved, discovered: null };
+    }
+    if (match) {
+      setSpeakerId(match.id);
+      connectToMatch(registry, match);
+    }
+  }, [registry, choosingSince, scanning, foundDevices, speakerIds]);
+
+  const renderStep = () => {
+    if (!link) {
+      return (
+        <ThemedText>
+          This setup link is missing the speaker&apos;s serial number. Scan the QR code on the speaker again, or
+          add it from the list of nearby speakers.
+        </ThemedText>
+      );
+    }
+    if (speakerId !== null) {
+      return <PairingStep id={speakerId} link={link} />;
+    }
+    if (!ready) {
+      return (
+        <>
+          <ThemedText>Bluetooth needs to be set up before the app can look for the speaker.</ThemedText>
+          <Button title="Set Up Bluetooth" onPress={() => router.push('/onboarding')} />
+        </>
+      );
+    }
+    if (scanOpensChooser) {
+      return (
+        <>
+          <ThemedText>Pick {link.name || 'the speaker'} in the browser&apos;s list of nearby speakers.</ThemedText>
+          <Button
+            title={choosingSince !== null ? 'Searching...' : 'Search for Speaker'}
+            onPress={chooseSpeaker}
+            disabled={choosingSince !== null}
+          />
+        </>
+      );
+    }
+    if (timedOut) {
+      return (
+        <>
+          <ThemedText>
+            No speaker with serial number {link.serial} is advertising nearby. Check that it is powered on and
+            within a few metres of the phone.
+          </ThemedText>
+          <Button title="Try Again" onPress={() => setTimedOut(false)} />
+        </>
+      );
+    }
+    return <Progress message={`Looking for speaker ${link.serial}...`} />;
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: link?.name ? `Set Up ${link.name}` : 'Set Up Speaker' }} />
+      <ScrollView contentContainerStyle={styles.content}>
+        {link && (
+          <View>
+            <ThemedText type="subtitle">{link.name || 'Speaker'}</ThemedText>
+            <ThemedText style={styles.detail}>Serial {link.serial}</ThemedText>
+          </View>
+        )}
+        {renderStep()}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  detail: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  progressMessage: {
+    opacity: 0.7,
+    textAlign: 'center',
+  },
+  progress: {
+    marginVertical: 20,
+  },
+});
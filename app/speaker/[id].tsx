@@ -0,0 +1,122 @@
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect } from 'react';
+import { ActivityIndicator, Button, ScrollView, StyleSheet, View } from 'react-native';
+
+import { SpeakerErrorNotice } from '@/components/SpeakerErrorNotice';
+import { SpeakerSettingsForm } from '@/components/SpeakerSettingsForm';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useSpeakerConnection } from '@/hooks/useSpeakerConnection';
+import { useSpeakerRegistry } from '@/hooks/useSpeakerRegistry';
+import { useTheme } from '@/hooks/useThemeColor';
+
+/**
+ * One saved speaker: its connection, pairing, Wi-Fi and firmware, and its settings.
+ * Selects the speaker on open, since the Pair, Wi-Fi and Firmware screens act on the
+ * selected one.
+ */
+export default function SpeakerScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { registry, state: registryState } = useSpeakerRegistry();
+  const { connection, state } = useSpeakerConnection(id);
+  const router = useRouter();
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    registry.select(id);
+  }, [registry, id]);
+
+  if (!connection || !state) {
+    return (
+      <ThemedView style={styles.container}>
+        <Stack.Screen options={{ title: 'Speaker' }} />
+        <ThemedText style={styles.content}>This speaker is no longer saved.</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const { device, security } = state;
+  const busy = state.status === 'connecting' || state.status === 'disconnecting';
+  const canConnect = registryState.bluetoothState === 'PoweredOn' && !!registryState.permissionsGranted;
+
+  const forget = async () => {
+    await registry.forget(id);
+    router.back();
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: state.name || id }} />
+      <ScrollView contentContainerStyle={styles.content}>
+        <View>
+          <ThemedText style={styles.detail}>{state.statusMessage}</ThemedText>
+          {state.advertisement && <ThemedText style={styles.detail}>Serial {state.advertisement.serial}</ThemedText>}
+          {state.firmwareVersion && <ThemedText style={styles.detail}>Firmware {state.firmwareVersion}</ThemedText>}
+          {device && <ThemedText style={styles.detail}>MTU {device.mtu}</ThemedText>}
+        </View>
+        {state.error && !device && !state.reconnect && (
+          <SpeakerErrorNotice error={state.error} onRetry={canConnect ? () => connection.reconnect() : undefined} />
+        )}
+
+        {!device ? (
+          state.reconnect ? (
+            <Button title="Stop Reconnecting" onPress={() => connection.disconnect()} color={colors.warning} />
+          ) : (
+            <Button title="Connect" onPress={() => connection.reconnect()} disabled={busy || !canConnect} />
+          )
+        ) : (
+          <>
+            {security === 'pairingRequired' && (
+              <Button title="Pair with Speaker" onPress={() => router.push('/pair')} disabled={busy} />
+            )}
+            {(security === 'securing' || security === 'pairing') && <ActivityIndicator />}
+            {security === 'secured' && (
+              <>
+                <Button title="Set up Wi-Fi" onPress={() => router.push('/wifi')} disabled={busy} />
+                <Button title="Firmware Update" onPress={() => router.push('/firmware')} disabled={busy} />
+              </>
+            )}
+          </>
+        )}
+        <Button
+          title="Find Speaker"
+          onPress={() => router.push({ pathname: '/locate/[id]', params: { id } })}
+          disabled={busy}
+        />
+        {device && (
+          <Button
+            title="Explore Services"
+            onPress={() => router.push({ pathname: '/device/[id]', params: { id } })}
+            disabled={busy}
+          />
+        )}
+
+        {security === 'secured' && (
+          <>
+            <ThemedText type="subtitle">Settings</ThemedText>
+            <SpeakerSettingsForm speakerId={id} />
+          </>
+        )}
+
+        {device && (
+          <Button title="Disconnect" onPress={() => connection.disconnect()} color={colors.warning} disabled={busy} />
+        )}
+        <Button title="Forget Speaker" onPress={forget} color={colors.danger} disabled={busy} />
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  detail: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,222 @@
+import { Stack } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Button,
+  FlatList,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useSpeakerConnection } from '@/hooks/useSpeakerConnection';
+import { useSpeakerEvent } from '@/hooks/useSpeakerEvent';
+import { useTheme } from '@/hooks/useThemeColor';
+import { describeError } from '@/services/speaker/errors';
+import { WifiNetwork, WifiStatus } from '@/services/speaker/protocol';
+
+type WizardStep =
+  | { name: 'networks' }
+  | { name: 'credentials'; network: WifiNetwork }
+  | { name: 'joining'; status: WifiStatus };
+
+// Rough bucketing of RSSI into the familiar four-bar indicator.
+function signalBars(rssi: number) {
+  if (rssi >= -55) return 4;
+  if (rssi >= -67) return 3;
+  if (rssi >= -78) return 2;
+  return 1;
+}
+
+export default function WifiSetupScreen() {
+  const { connection, state } = useSpeakerConnection();
+  const { colors } = useTheme();
+  const [step, setStep] = useState<WizardStep>({ name: 'networks' });
+  const [networks, setNetworks] = useState<WifiNetwork[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const scan = useCallback(async () => {
+    if (!connection) return;
+    setScanning(true);
+    setError(null);
+    try {
+      const { networks } = await connection.request('wifiScan', {});
+      setNetworks([...networks].sort((a, b) => b.rssi - a.rssi));
+    } catch (error) {
+      setError(describeError(error).message);
+    } finally {
+      setScanning(false);
+    }
+  }, [connection]);
+
+  const join = async (network: WifiNetwork, password: string) => {
+    if (!connection) return;
+    setError(null);
+    try {
+      const status = await connection.request('wifiConnect', { ssid: network.ssid, password });
+      setStep({ name: 'joining', status });
+    } catch (error) {
+      setError(describeError(error).message);
+    }
+  };
+
+  const selectNetwork = (network: WifiNetwork) => {
+    setPassword('');
+    if (network.secure) {
+      setStep({ name: 'credentials', network });
+    } else {
+      join(network, '');
+    }
+  };
+
+  useSpeakerEvent('wifiStatus', (status) => {
+    setStep((step) => (step.name === 'joining' ? { name: 'joining', status } : step));
+  });
+
+  // Credentials may only travel over the encrypted channel.
+  const secured = state?.security === 'secured';
+  useEffect(() => {
+    if (secured) {
+      scan();
+    }
+  }, [secured, scan]);
+
+  if (!secured) {
+    return (
+      <ThemedView style={styles.container}>
+        <Stack.Screen options={{ title: 'Wi-Fi Setup' }} />
+        <ThemedText>Connect to and pair with a speaker on the BLE tab to set up its Wi-Fi.</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const renderNetwork = ({ item }: { item: WifiNetwork }) => (
+    <TouchableOpacity
+      style={[styles.network, { borderBottomColor: colors.border }]}
+      onPress={() => selectNetwork(item)}>
+      <ThemedText type="defaultSemiBold">
+        {item.ssid}
+        {item.secure ? ' 🔒' : ''}
+      </ThemedText>
+      <ThemedText style={styles.signal}>
+        {'▮'.repeat(signalBars(item.rssi)).padEnd(4, '▯')} {item.rssi} dBm
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: 'Wi-Fi Setup' }} />
+      {error && <ThemedText style={{ color: colors.danger }}>{error}</ThemedText>}
+
+      {step.name === 'networks' && (
+        <>
+          <ThemedText type="subtitle">Choose a network</ThemedText>
+          <FlatList
+            data={networks}
+            renderItem={renderNetwork}
+            keyExtractor={(item) => item.ssid}
+            style={styles.list}
+            refreshing={scanning}
+            onRefresh={scan}
+            ListEmptyComponent={
+              scanning ? null : <ThemedText style={styles.hint}>The speaker found no networks.</ThemedText>
+            }
+          />
+          <Button title={scanning ? 'Scanning...' : 'Scan Again'} onPress={scan} disabled={scanning} />
+        </>
+      )}
+
+      {step.name === 'credentials' && (
+        <>
+          <ThemedText type="subtitle">Join {step.network.ssid}</ThemedText>
+          <TextInput
+            style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+            value={password}
+            onChangeText={setPassword}
+            placeholder="Password"
+            placeholderTextColor={colors.textMuted}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
+          />
+          <View style={styles.buttonContainer}>
+            <Button title="Join" onPress={() => join(step.network, password)} disabled={!password} />
+          </View>
+          <View style={styles.buttonContainer}>
+            <Button title="Back" onPress={() => setStep({ name: 'networks' })} />
+          </View>
+        </>
+      )}
+
+      {step.name === 'joining' && (
+        <>
+          <ThemedText type="subtitle">{step.status.ssid}</ThemedText>
+          {step.status.state === 'joining' && (
+            <>
+              <ActivityIndicator size="large" style={styles.progress} />
+              <ThemedText style={styles.hint}>The speaker is joining the network...</ThemedText>
+            </>
+          )}
+          {step.status.state === 'connected' && (
+            <>
+              <ThemedText>Connected.</ThemedText>
+              <ThemedText style={styles.hint}>Speaker address: {step.status.ip}</ThemedText>
+            </>
+          )}
+          {(step.status.state === 'failed' || step.status.state === 'disconnected') && (
+            <>
+              <ThemedText style={{ color: colors.danger }}>Could not join the network.</ThemedText>
+              <ThemedText style={styles.hint}>{step.status.reason ?? 'No reason given.'}</ThemedText>
+            </>
+          )}
+          {step.status.state !== 'joining' && (
+            <View style={styles.buttonContainer}>
+              <Button title="Choose Another Network" onPress={() => setStep({ name: 'networks' })} />
+            </View>
+          )}
+        </>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 20,
+    gap: 10,
+  },
+  list: {
+    flexGrow: 0,
+    maxHeight: 400,
+  },
+  network: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  signal: {
+    fontSize: 13,
+  },
+  input: {
+    height: 45,
+    borderWidth: 1,
+    paddingHorizontal: 10,
+    borderRadius: 5,
+  },
+  buttonContainer: {
+    marginVertical: 4,
+  },
+  progress: {
+    marginVertical: 20,
+  },
+  hint: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,58 @@
+import { createContext, useEffect, useMemo, useState, type PropsWithChildren } from 'react';
+import { Appearance, Platform } from 'react-native';
+
+import { useSystemColorScheme } from '@/hooks/useSystemColorScheme';
+import { AppearancePreference, loadAppearance, saveAppearance } from '@/services/appearance';
+
+export type AppearanceState = {
+  preference: AppearancePreference;
+  /** The scheme the app is drawn in, after resolving `system` to the system's. */
+  scheme: 'light' | 'dark';
+  highContrast: boolean;
+  /** Changes the setting and saves it for the next launch. */
+  setPreference: (changes: Partial<AppearancePreference>) => void;
+};
+
+export const AppearanceContext = createContext<AppearanceState | null>(null);
+
+/**
+ * Applies the appearance the user picked in the app, which takes precedence over the
+ * system's. Renders nothing until the saved setting is loaded, so the app does not
+ * flash in the system's scheme first.
+ */
+export function AppearanceProvider({ children }: PropsWithChildren) {
+  const systemScheme = useSystemColorScheme();
+  const [preference, setStoredPreference] = useState<AppearancePreference | null>(null);
+
+  useEffect(() => {
+    loadAppearance().then(setStoredPreference);
+  }, []);
+
+  const mode = preference?.mode;
+  useEffect(() => {
+    // Alerts, keyboards and other native UI follow the app rather than the system.
+    if (mode && Platform.OS !== 'web') {
+      Appearance.setColorScheme(mode === 'system' ? null : mode);
+    }
+  }, [mode]);
+
+  const value = useMemo<AppearanceState | null>(() => {
+    if (!preference) return null;
+    return {
+      preference,
+      scheme: preference.mode === 'system' ? (systemScheme === 'dark' ? 'dark' : 'light') : preference.mode,
+      highContrast: preference.highContrast,
+      setPreference: (changes) => {
+        const next = { ...preference, ...changes };
+        setStoredPreference(next);
+        saveAppearance(next);
+      },
+    };
+  }, [preference, systemScheme]);
+
+  if (!value) {
+    return null;
+  }
+
+  return <AppearanceContext.Provider value={value}>{children}</AppearanceContext.Provider>;
+}
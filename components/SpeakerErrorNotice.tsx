@@ -0,0 +1,54 @@
+import { Button, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { SpeakerError } from '@/services/speaker/errors';
+import { openAppSettings, openBluetoothSettings } from '@/services/speaker/permissions';
+
+/**
+ * Shows a `SpeakerError` with a button for its suggested action. Retrying and pairing
+ * depend on the screen, so their buttons only appear when a handler is given.
+ */
+export function SpeakerErrorNotice({
+  error,
+  onRetry,
+  onPair,
+}: {
+  error: SpeakerError;
+  onRetry?: () => void;
+  onPair?: () => void;
+}) {
+  const actions = {
+    openSettings: { title: 'Open Settings', onPress: openAppSettings },
+    enableBluetooth: { title: 'Bluetooth Settings', onPress: openBluetoothSettings },
+    moveCloser: onRetry && { title: 'Try Again', onPress: onRetry },
+    retry: onRetry && { title: 'Try Again', onPress: onRetry },
+    pair: onPair && { title: 'Pair Again', onPress: onPair },
+  };
+  const action = error.action && actions[error.action];
+  const danger = useThemeColor({}, 'danger');
+
+  return (
+    <View style={[styles.notice, { borderColor: danger }]}>
+      <ThemedText type="defaultSemiBold" style={{ color: danger }}>
+        {error.title}
+      </ThemedText>
+      <ThemedText style={styles.message}>{error.message}</ThemedText>
+      {action && <Button title={action.title} onPress={action.onPress} />}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  notice: {
+    alignSelf: 'stretch',
+    gap: 4,
+    padding: 12,
+    marginVertical: 8,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  message: {
+    fontSize: 14,
+  },
+});
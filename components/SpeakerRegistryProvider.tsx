@@ -0,0 +1,51 @@
+import { createContext, useEffect, useState, type PropsWithChildren } from 'react';
+
+import { SPEAKER_NAME_TARGET } from '@/constants/Speaker';
+import { eventLog } from '@/services/speaker/eventLog';
+import { FakeTransport } from '@/services/speaker/FakeTransport';
+import { LoggingTransport } from '@/services/speaker/LoggingTransport';
+import { configureNotifications, showNotification } from '@/services/speaker/notifications';
+import { createPlatformTransport } from '@/services/speaker/platformTransport';
+import { SpeakerNotifier } from '@/services/speaker/SpeakerNotifier';
+import { SpeakerRegistry } from '@/services/speaker/SpeakerRegistry';
+import { SpeakerTransport } from '@/services/speaker/transport';
+
+export const SpeakerRegistryContext = createContext<SpeakerRegistry | null>(null);
+
+function createBaseTransport(): SpeakerTransport {
+  // Set EXPO_PUBLIC_SPEAKER_TRANSPORT=fake to run against simulated speakers, e.g. on a simulator.
+  if (process.env.EXPO_PUBLIC_SPEAKER_TRANSPORT === 'fake') {
+    const transport = new FakeTransport();
+    transport.latencyMs = 150;
+    transport.addSpeaker('fake-speaker-1', SPEAKER_NAME_TARGET);
+    transport.addSpeaker('fake-speaker-2', 'Kitchen Speaker', { rssi: -72 });
+    return transport;
+  }
+  return createPlatformTransport();
+}
+
+function createTransport() {
+  return new LoggingTransport(createBaseTransport(), eventLog);
+}
+
+/**
+ * Keeps the speaker registry alive for the whole app so every screen sees the same
+ * BLE state, whether or not the BLE tab is mounted, and notifies the user about the
+ * speakers while the app is in the background.
+ */
+export function SpeakerRegistryProvider({ children }: PropsWithChildren) {
+  const [registry] = useState(() => new SpeakerRegistry(createTransport()));
+
+  useEffect(() => {
+    eventLog.restore();
+    configureNotifications();
+    const stopNotifier = new SpeakerNotifier(registry, showNotification).start();
+    const stopRegistry = registry.start();
+    return () => {
+      stopRegistry();
+      stopNotifier();
+    };
+  }, [registry]);
+
+  return <SpeakerRegistryContext.Provider value={registry}>{children}</SpeakerRegistryContext.Provider>;
+}
@@ -0,0 +1,240 @@
+import { useEffect, useState } from 'react';
+import { Alert, Button, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { Collapsible } from '@/components/Collapsible';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useSpeakerConnection } from '@/hooks/useSpeakerConnection';
+import { useSpeakerRegistry } from '@/hooks/useSpeakerRegistry';
+import { useTheme } from '@/hooks/useThemeColor';
+import { describeError, UserFacingError } from '@/services/speaker/errors';
+import {
+  SETTING_KEYS,
+  SETTING_SECTIONS,
+  SettingField,
+  SettingKey,
+  SettingsPatch,
+  SPEAKER_SETTINGS_SCHEMA,
+  validateSetting,
+} from '@/services/speaker/settings';
+
+// Fields hold text while they are edited so half-typed numbers survive re-renders.
+type Edits = Partial<Record<SettingKey, string>>;
+
+function parseInput(field: SettingField, text: string) {
+  if (field.kind === 'number') {
+    return text.trim() === '' ? NaN : Number(text);
+  }
+  return text;
+}
+
+type FieldProps = {
+  field: SettingField;
+  value: string;
+  error: string | null;
+  dirty: boolean;
+  onChange: (text: string) => void;
+};
+
+function SettingInput({ field, value, error, dirty, onChange }: FieldProps) {
+  const { colors } = useTheme();
+
+  const step = (direction: 1 | -1) => {
+    if (field.kind !== 'number') return;
+    const current = Number(value);
+    const next = (Number.isFinite(current) ? current : field.min) + direction * field.step;
+    onChange(String(Math.min(field.max, Math.max(field.min, next))));
+  };
+
+  return (
+    <View style={styles.field}>
+      <ThemedText type={dirty ? 'defaultSemiBold' : 'default'}>
+        {field.label}
+        {field.kind === 'number' && field.unit ? ` (${field.unit})` : ''}
+        {dirty ? ' •' : ''}
+      </ThemedText>
+
+      {field.kind === 'choice' ? (
+        <View style={styles.row}>
+          {field.options.map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.chip,
+                { borderColor: colors.tint },
+                option === value && { backgroundColor: colors.tint },
+              ]}
+              onPress={() => onChange(option)}>
+              <ThemedText style={option === value && [styles.selectedChipText, { color: colors.onTint }]}>
+                {option}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : (
+        <View style={styles.row}>
+          {field.kind === 'number' && <Button title="−" onPress={() => step(-1)} />}
+          <TextInput
+            style={[styles.input, { color: colors.text, borderColor: error ? colors.danger : colors.border }]}
+            value={value}
+            onChangeText={onChange}
+            keyboardType={field.kind === 'number' ? 'numeric' : 'default'}
+            maxLength={field.kind === 'text' ? field.maxLength : undefined}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {field.kind === 'number' && <Button title="+" onPress={() => step(1)} />}
+        </View>
+      )}
+
+      {error && <ThemedText style={[styles.error, { color: colors.danger }]}>{error}</ThemedText>}
+    </View>
+  );
+}
+
+/**
+ * Form for the settings of one speaker, generated from the settings schema. It reads
+ * the current values when it mounts, marks edited fields and writes only the changes.
+ */
+export function SpeakerSettingsForm({ speakerId }: { speakerId: string }) {
+  const { registry, state: registryState } = useSpeakerRegistry();
+  const { connection, state } = useSpeakerConnection(speakerId);
+  const [edits, setEdits] = useState<Edits>({});
+  const [saving, setSaving] = useState(false);
+  const settings = state?.settings ?? null;
+
+  useEffect(() => {
+    setEdits({});
+    // Failures are reported through the connection's statusMessage.
+    connection?.loadSettings().catch(() => {});
+  }, [connection]);
+
+  if (!connection || !settings) {
+    return <ThemedText style={styles.hint}>Reading settings...</ThemedText>;
+  }
+
+  const errors: Partial<Record<SettingKey, string>> = {};
+  const changes: Record<string, unknown> = {};
+  (Object.keys(edits) as SettingKey[]).forEach((key) => {
+    const value = parseInput(SPEAKER_SETTINGS_SCHEMA[key], edits[key]!);
+    const error = validateSetting(key, value);
+    if (error) {
+      errors[key] = error;
+    } else if (value !== settings[key]) {
+      changes[key] = value;
+    }
+  });
+  const hasErrors = Object.keys(errors).length > 0;
+  const hasChanges = Object.keys(changes).length > 0;
+  // The device name identifies each speaker, so it is never copied to the others.
+  const { name, ...groupChanges } = changes as SettingsPatch;
+  const otherSpeakers = registryState.connectedIds.filter((id) => id !== speakerId).length;
+
+  const save = async (apply: () => Promise<unknown>) => {
+    setSaving(true);
+    try {
+      await apply();
+      setEdits({});
+    } catch (error) {
+      Alert.alert('Settings Not Saved', describeError(error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const applyToAll = () =>
+    save(async () => {
+      if (name !== undefined) await connection.updateSettings({ name });
+      if (Object.keys(groupChanges).length === 0) return;
+      const { failed } = await registry.updateSettings(groupChanges);
+      if (failed.length > 0) {
+        const lines = failed.map(
+          ({ id, error }) => `${registry.getConnection(id)?.getState().name || id}: ${describeError(error).message}`
+        );
+        throw new UserFacingError(lines.join('\n'));
+      }
+    });
+
+  const valueOf = (key: SettingKey) => edits[key] ?? String(settings[key]);
+
+  return (
+    <ThemedView style={styles.container}>
+      {SETTING_SECTIONS.map((section) => (
+        <Collapsible key={section.id} title={section.title}>
+          {SETTING_KEYS.filter((key) => SPEAKER_SETTINGS_SCHEMA[key].section === section.id).map((key) => (
+            <SettingInput
+              key={key}
+              field={SPEAKER_SETTINGS_SCHEMA[key]}
+              value={valueOf(key)}
+              error={errors[key] ?? null}
+              dirty={key in changes}
+              onChange={(text) => setEdits((current) => ({ ...current, [key]: text }))}
+            />
+          ))}
+        </Collapsible>
+      ))}
+
+      <View style={styles.actions}>
+        <Button
+          title={saving ? 'Saving...' : 'Save Changes'}
+          onPress={() => save(() => connection.updateSettings(changes as SettingsPatch))}
+          disabled={!hasChanges || hasErrors || saving}
+        />
+        {otherSpeakers > 0 && (
+          <Button
+            title={`Apply to All ${otherSpeakers + 1} Speakers`}
+            onPress={applyToAll}
+            disabled={!hasChanges || hasErrors || saving}
+          />
+        )}
+        <Button title="Discard" onPress={() => setEdits({})} disabled={Object.keys(edits).length === 0 || saving} />
+        <Button title="Reload" onPress={() => connection.loadSettings().catch(() => {})} disabled={saving} />
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    gap: 12,
+    paddingVertical: 10,
+  },
+  field: {
+    marginBottom: 12,
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    minWidth: 80,
+    height: 40,
+    borderWidth: 1,
+    paddingHorizontal: 8,
+    borderRadius: 5,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  selectedChipText: {
+    fontWeight: '600',
+  },
+  actions: {
+    gap: 8,
+  },
+  hint: {
+    opacity: 0.7,
+    textAlign: 'center',
+  },
+  error: {
+    fontSize: 13,
+  },
+});
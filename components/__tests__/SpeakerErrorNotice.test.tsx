@@ -0,0 +1,31 @@
+import { render, screen } from '@testing-library/react-native';
+import { StyleSheet } from 'react-native';
+
+import { AppearanceContext, AppearanceState } from '@/components/AppearanceProvider';
+import { SpeakerErrorNotice } from '@/components/SpeakerErrorNotice';
+import { Colors, HighContrastColors } from '@/constants/Colors';
+import { speakerError } from '@/services/speaker/errors';
+
+function renderNotice(scheme: 'light' | 'dark', highContrast: boolean) {
+  const appearance: AppearanceState = {
+    preference: { mode: scheme, highContrast },
+    scheme,
+    highContrast,
+    setPreference: () => {},
+  };
+  const error = speakerError('outOfRange');
+  render(
+    <AppearanceContext.Provider value={appearance}>
+      <SpeakerErrorNotice error={error} />
+    </AppearanceContext.Provider>
+  );
+  return StyleSheet.flatten(screen.getByText(error.title).props.style).color;
+}
+
+describe('SpeakerErrorNotice', () => {
+  it.each(['light', 'dark'] as const)('draws its title in the high-contrast danger color in %s mode', (scheme) => {
+    expect(renderNotice(scheme, false)).toBe(Colors[scheme].danger);
+    expect(renderNotice(scheme, true)).toBe(HighContrastColors[scheme].danger);
+    expect(HighContrastColors[scheme].danger).not.toBe(Colors[scheme].danger);
+  });
+});
@@ -0,0 +1,68 @@
+import { ActivityIndicator, Pressable, StyleSheet, Text, type StyleProp, type ViewStyle } from 'react-native';
+
+import { Radii, Spacing, Typography } from '@/constants/Theme';
+import { useTheme } from '@/hooks/useThemeColor';
+
+export type ButtonVariant = 'primary' | 'secondary' | 'danger' | 'plain';
+
+export type ButtonProps = {
+  title: string;
+  onPress: () => void;
+  /** `primary` is filled with the tint color, `secondary` and `danger` are outlined, `plain` is text only. */
+  variant?: ButtonVariant;
+  disabled?: boolean;
+  /** Shows a spinner instead of the title and ignores presses. */
+  loading?: boolean;
+  style?: StyleProp<ViewStyle>;
+};
+
+export function Button({ title, onPress, variant = 'primary', disabled, loading, style }: ButtonProps) {
+  const { colors } = useTheme();
+  const inactive = !!disabled || !!loading;
+  const color = {
+    primary: colors.onTint,
+    secondary: colors.tint,
+    danger: colors.danger,
+    plain: colors.textMuted,
+  }[variant];
+  const frame = {
+    primary: { backgroundColor: colors.tint, borderColor: colors.tint },
+    secondary: { borderColor: colors.border },
+    danger: { borderColor: colors.danger },
+    plain: { borderColor: 'transparent' },
+  }[variant];
+
+  return (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityLabel={title}
+      accessibilityState={{ disabled: inactive, busy: !!loading }}
+      onPress={onPress}
+      disabled={inactive}
+      style={({ pressed }) => [styles.button, frame, pressed && styles.pressed, disabled && styles.disabled, style]}>
+      {loading ? <ActivityIndicator color={color} /> : <Text style={[styles.title, { color }]}>{title}</Text>}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    minHeight: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderWidth: 1,
+    borderRadius: Radii.md,
+  },
+  title: {
+    ...Typography.bodySemiBold,
+    textAlign: 'center',
+  },
+  pressed: {
+    opacity: 0.7,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+});
@@ -0,0 +1,51 @@
+import type { PropsWithChildren } from 'react';
+import { Pressable, StyleSheet, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import { Radii, Spacing } from '@/constants/Theme';
+import { useTheme } from '@/hooks/useThemeColor';
+
+export type CardProps = PropsWithChildren<{
+  /** Outlines the card in the tint color, e.g. for the selected item of a list. */
+  selected?: boolean;
+  /** Makes the whole card pressable. */
+  onPress?: () => void;
+  style?: StyleProp<ViewStyle>;
+}>;
+
+/** A bordered panel one surface level above the screen. */
+export function Card({ selected, onPress, style, children }: CardProps) {
+  const { colors } = useTheme();
+  const cardStyle = [
+    styles.card,
+    { backgroundColor: colors.surface, borderColor: selected ? colors.tint : colors.border },
+    selected && styles.selected,
+    style,
+  ];
+
+  if (!onPress) {
+    return <View style={cardStyle}>{children}</View>;
+  }
+  return (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      onPress={onPress}
+      style={({ pressed }) => [cardStyle, pressed && { backgroundColor: colors.surfaceRaised }]}>
+      {children}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    gap: Spacing.xs,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderRadius: Radii.md,
+  },
+  // The thicker border would shift the content, so the padding shrinks to match.
+  selected: {
+    borderWidth: 2,
+    padding: Spacing.md - 1,
+  },
+});
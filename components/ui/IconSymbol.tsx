@@ -18,6 +18,13 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  'hifispeaker.fill': 'speaker',
+  'play.fill': 'play-arrow',
+  'pause.fill': 'pause',
+  'speaker.wave.2.fill': 'volume-up',
+  'speaker.slash.fill': 'volume-off',
+  minus: 'remove',
+  plus: 'add',
 } as IconMapping;
 
 /**
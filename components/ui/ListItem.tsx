@@ -0,0 +1,60 @@
+import type { ReactNode } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { Card } from '@/components/ui/Card';
+import { Spacing, Typography } from '@/constants/Theme';
+import { useTheme } from '@/hooks/useThemeColor';
+
+export type ListItemProps = {
+  title: string;
+  /** Secondary lines under the title; falsy entries are skipped so they can be conditional. */
+  details?: (string | false | null | undefined)[];
+  /** Shown next to the title, typically a `StatusBadge`. */
+  badge?: ReactNode;
+  /** Shown under the details, typically a small `Button`. */
+  accessory?: ReactNode;
+  selected?: boolean;
+  onPress?: () => void;
+};
+
+/** A row of a list of devices or settings, drawn as a `Card`. */
+export function ListItem({ title, details = [], badge, accessory, selected, onPress }: ListItemProps) {
+  const { colors } = useTheme();
+
+  return (
+    <Card selected={selected} onPress={onPress}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>
+          {title}
+        </Text>
+        {badge}
+      </View>
+      {details.filter(Boolean).map((detail, index) => (
+        <Text key={index} style={[styles.detail, { color: colors.textMuted }]}>
+          {detail}
+        </Text>
+      ))}
+      {accessory && <View style={styles.accessory}>{accessory}</View>}
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: Spacing.sm,
+  },
+  title: {
+    ...Typography.bodySemiBold,
+    flexShrink: 1,
+  },
+  detail: {
+    ...Typography.caption,
+  },
+  accessory: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+});
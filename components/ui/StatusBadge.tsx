@@ -0,0 +1,40 @@
+import { StyleSheet, Text, View } from 'react-native';
+
+import { Radii, Spacing, Typography } from '@/constants/Theme';
+import { useTheme } from '@/hooks/useThemeColor';
+
+export type BadgeTone = 'neutral' | 'info' | 'success' | 'warning' | 'danger';
+
+/** A short status label in a pill, colored by what it means. */
+export function StatusBadge({ label, tone = 'neutral' }: { label: string; tone?: BadgeTone }) {
+  const { colors } = useTheme();
+  const color = {
+    neutral: colors.textMuted,
+    info: colors.tint,
+    success: colors.success,
+    warning: colors.warning,
+    danger: colors.danger,
+  }[tone];
+
+  return (
+    <View style={[styles.badge, { borderColor: color }]}>
+      <Text style={[styles.label, { color }]} numberOfLines={1}>
+        {label}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderWidth: 1,
+    borderRadius: Radii.pill,
+  },
+  label: {
+    ...Typography.caption,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,60 @@
+import { StyleSheet, Text, TextInput, View, type TextInputProps } from 'react-native';
+
+import { Radii, Spacing, Typography } from '@/constants/Theme';
+import { useTheme } from '@/hooks/useThemeColor';
+
+export type TextFieldProps = TextInputProps & {
+  label?: string;
+  /** Shown under the field in the danger color. */
+  error?: string | null;
+};
+
+/** A text input that follows the color scheme, with an optional label and error message. */
+export function TextField({ label, error, style, editable = true, ...rest }: TextFieldProps) {
+  const { colors } = useTheme();
+
+  return (
+    <View style={styles.field}>
+      {label && <Text style={[styles.label, { color: colors.textMuted }]}>{label}</Text>}
+      <TextInput
+        style={[
+          styles.input,
+          {
+            color: colors.text,
+            backgroundColor: colors.surfaceRaised,
+            borderColor: error ? colors.danger : colors.border,
+          },
+          !editable && styles.disabled,
+          style,
+        ]}
+        placeholderTextColor={colors.textMuted}
+        editable={editable}
+        {...rest}
+      />
+      {error && <Text style={[styles.error, { color: colors.danger }]}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    gap: Spacing.xs,
+  },
+  label: {
+    ...Typography.footnote,
+  },
+  input: {
+    ...Typography.body,
+    minHeight: 44,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderWidth: 1,
+    borderRadius: Radii.sm,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  error: {
+    ...Typography.footnote,
+  },
+});
@@ -1,6 +1,10 @@
 /**
  * Below are the colors that are used in the app. The colors are defined in the light and dark mode.
  * There are many other ways to style your app. For example, [Nativewind](https://www.nativewind.dev/), [Tamagui](https://tamagui.dev/), [unistyles](https://reactnativeunistyles.vercel.app), etc.
+ *
+ * Surfaces stack from `background` (the screen) to `surface` (cards and list rows) to
+ * `surfaceRaised` (inputs and pressed rows). Spacing, radii and type sizes are in `Theme.ts`.
+ * `HighContrastColors` replaces them when high contrast is turned on under Appearance.
  */
 
 const tintColorLight = '#0a7ea4';
@@ -9,18 +13,72 @@ const tintColorDark = '#fff';
 export const Colors = {
   light: {
     text: '#11181C',
+    textMuted: '#687076',
     background: '#fff',
+    surface: '#F1F3F5',
+    surfaceRaised: '#E6E8EB',
+    border: '#D7DBDF',
     tint: tintColorLight,
+    /** Text and icons drawn on a `tint` background. */
+    onTint: '#fff',
     icon: '#687076',
     tabIconDefault: '#687076',
     tabIconSelected: tintColorLight,
+    success: '#2E7D32',
+    warning: '#B26A00',
+    danger: '#D32F2F',
   },
   dark: {
     text: '#ECEDEE',
+    textMuted: '#9BA1A6',
     background: '#151718',
+    surface: '#1E2022',
+    surfaceRaised: '#2A2D30',
+    border: '#3A3F42',
     tint: tintColorDark,
+    onTint: '#151718',
     icon: '#9BA1A6',
     tabIconDefault: '#9BA1A6',
     tabIconSelected: tintColorDark,
+    success: '#66BB6A',
+    warning: '#FFB74D',
+    danger: '#EF5350',
+  },
+};
+
+export type ColorName = keyof typeof Colors.light & keyof typeof Colors.dark;
+
+export const HighContrastColors: Record<keyof typeof Colors, Record<ColorName, string>> = {
+  light: {
+    text: '#000',
+    textMuted: '#3A3F42',
+    background: '#fff',
+    surface: '#fff',
+    surfaceRaised: '#F1F3F5',
+    border: '#000',
+    tint: '#005A78',
+    onTint: '#fff',
+    icon: '#000',
+    tabIconDefault: '#3A3F42',
+    tabIconSelected: '#005A78',
+    success: '#1B5E20',
+    warning: '#7A4500',
+    danger: '#B71C1C',
+  },
+  dark: {
+    text: '#fff',
+    textMuted: '#D7DBDF',
+    background: '#000',
+    surface: '#000',
+    surfaceRaised: '#1E2022',
+    border: '#fff',
+    tint: '#fff',
+    onTint: '#000',
+    icon: '#fff',
+    tabIconDefault: '#D7DBDF',
+    tabIconSelected: '#fff',
+    success: '#81C784',
+    warning: '#FFCC80',
+    danger: '#FF8A80',
   },
 };
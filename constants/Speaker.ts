@@ -0,0 +1,37 @@
+/**
+ * GATT identifiers exposed by the Raspberry Pi smart speaker peripheral.
+ * These must stay in sync with the peripheral implementation.
+ */
+
+export const SPEAKER_NAME_TARGET = 'MyRaspberryPiSettings';
+export const SPEAKER_SERVICE_UUID = '11111111-2222-3333-4444-555555555555';
+export const SPEAKER_CONTROL_CHARACTERISTIC_UUID = '66666666-7777-8888-9999-000000000000';
+/** Notify-only characteristic the speaker pushes event frames on. */
+export const SPEAKER_EVENTS_CHARACTERISTIC_UUID = '66666666-7777-8888-9999-000000000001';
+/** Write-only characteristic that receives firmware image blocks during an update. */
+export const SPEAKER_FIRMWARE_CHARACTERISTIC_UUID = '66666666-7777-8888-9999-000000000002';
+
+/** MTU requested when connecting; the negotiated value may be lower. */
+export const SPEAKER_REQUESTED_MTU = 251;
+
+/** How long a timed scan runs before it stops by itself. */
+export const SPEAKER_SCAN_DURATION_MS = 10000;
+/** How long a speaker stays in the scan results after its last advertisement. */
+export const SPEAKER_SCAN_DEVICE_TTL_MS = 8000;
+
+/** Lets iOS relaunch the app in the background and hand back its speaker connections. */
+export const SPEAKER_BLE_RESTORE_ID = 'karolina-speaker-central';
+
+/** First delay before reconnecting to a speaker that dropped; doubles on each failure. */
+export const SPEAKER_RECONNECT_BASE_DELAY_MS = 1000;
+export const SPEAKER_RECONNECT_MAX_DELAY_MS = 30000;
+export const SPEAKER_RECONNECT_MAX_ATTEMPTS = 8;
+
+/** How long a command may take before it fails, unless its type allows longer. */
+export const SPEAKER_COMMAND_TIMEOUT_MS = 5000;
+/** Retry policy for commands that are safe to repeat. */
+export const SPEAKER_COMMAND_RETRY_ATTEMPTS = 3;
+export const SPEAKER_COMMAND_RETRY_DELAY_MS = 300;
+
+/** How long a rebooting speaker may take to come back after installing firmware. */
+export const SPEAKER_FIRMWARE_REBOOT_TIMEOUT_MS = 120000;
@@ -0,0 +1,28 @@
+import type { TextStyle } from 'react-native';
+
+/** Spacing scale for padding, margins and gaps. */
+export const Spacing = {
+  xs: 4,
+  sm: 8,
+  md: 12,
+  lg: 16,
+  xl: 20,
+  xxl: 32,
+};
+
+export const Radii = {
+  sm: 5,
+  md: 8,
+  lg: 12,
+  pill: 999,
+};
+
+/** Type scale; `body`, `title` and `subtitle` match the `ThemedText` types of the same name. */
+export const Typography = {
+  caption: { fontSize: 12, lineHeight: 16 },
+  footnote: { fontSize: 14, lineHeight: 20 },
+  body: { fontSize: 16, lineHeight: 24 },
+  bodySemiBold: { fontSize: 16, lineHeight: 24, fontWeight: '600' },
+  subtitle: { fontSize: 20, fontWeight: 'bold' },
+  title: { fontSize: 32, lineHeight: 32, fontWeight: 'bold' },
+} satisfies Record<string, TextStyle>;
@@ -0,0 +1,12 @@
+import { useContext } from 'react';
+
+import { AppearanceContext } from '@/components/AppearanceProvider';
+
+/** Returns the appearance setting, the color scheme it resolves to, and a function to change it. */
+export function useAppearance() {
+  const appearance = useContext(AppearanceContext);
+  if (!appearance) {
+    throw new Error('useAppearance must be used inside an AppearanceProvider');
+  }
+  return appearance;
+}
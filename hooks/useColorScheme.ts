@@ -1 +1,6 @@
-export { useColorScheme } from 'react-native';
+import { useAppearance } from '@/hooks/useAppearance';
+
+/** The color scheme the app is drawn in: the one picked under Appearance, or the system's. */
+export function useColorScheme() {
+  return useAppearance().scheme;
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+
+import { eventLog } from '@/services/speaker/eventLog';
+
+/** Returns the entries of the BLE event log, oldest first, re-rendering as new ones arrive. */
+export function useEventLog() {
+  return useSyncExternalStore(eventLog.subscribe, eventLog.getEntries);
+}
@@ -0,0 +1,20 @@
+import { useSyncExternalStore } from 'react';
+
+import { useSpeakerConnection } from '@/hooks/useSpeakerConnection';
+
+const noSubscription = () => () => {};
+const noState = () => null;
+
+/**
+ * Returns the firmware updater of the speaker with the given id, or of the selected
+ * speaker, together with a snapshot of the update's state. Both are `null` when
+ * there is no such speaker.
+ */
+export function useFirmwareUpdate(id?: string) {
+  const { connection } = useSpeakerConnection(id);
+  const updater = connection?.firmware ?? null;
+
+  const state = useSyncExternalStore(updater?.subscribe ?? noSubscription, updater?.getState ?? noState);
+
+  return { updater, state };
+}
@@ -0,0 +1,14 @@
+import { useRouter } from 'expo-router';
+import { useEffect } from 'react';
+
+import { onNotificationOpened } from '@/services/speaker/notifications';
+
+/** Opens the speaker's screen when the user taps one of its notifications. */
+export function useNotificationNavigation() {
+  const router = useRouter();
+
+  useEffect(
+    () => onNotificationOpened((id) => router.push({ pathname: '/speaker/[id]', params: { id } })),
+    [router]
+  );
+}
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { SPEAKER_SCAN_DEVICE_TTL_MS } from '@/constants/Speaker';
+import { useSpeakerConnection } from '@/hooks/useSpeakerConnection';
+import { useSpeakerRegistry } from '@/hooks/useSpeakerRegistry';
+import {
+  ProximityTrend,
+  proximityTrend,
+  RssiSample,
+  smoothRssi,
+  TREND_WINDOW_MS,
+} from '@/services/speaker/proximity';
+
+// How often the signal of a connected speaker is read.
+const RSSI_POLL_INTERVAL_MS = 500;
+
+/**
+ * Follows the signal strength of one speaker for as long as the calling screen is
+ * mounted. Connected speakers stop advertising, so their link is polled; otherwise a
+ * continuous scan runs until the screen goes away. Returns the smoothed RSSI, or
+ * `null` while the speaker is out of range, and whether it is getting stronger.
+ *
+ * Where scans open a device chooser, as in browsers, none is started by itself:
+ * `chooseSpeaker` is set instead, for the screen to call from a button press.
+ */
+export function useProximity(id: string) {
+  const { registry, state: registryState } = useSpeakerRegistry();
+  const { connection, state } = useSpeakerConnection(id);
+  const [polled, setPolled] = useState<RssiSample | null>(null);
+  const samples = useRef<RssiSample[]>([]);
+  const [trend, setTrend] = useState<ProximityTrend>('steady');
+  const [now, setNow] = useState(Date.now());
+
+  const connected = state?.status === 'connected';
+  const { scanning, error: scanError } = registryState;
+
+  useEffect(() => {
+    if (!connected || !connection) return;
+    let smoothed: number | null = null;
+    const poll = async () => {
+      try {
+        smoothed = smoothRssi(smoothed, await connection.readRssi());
+        setPolled({ rssi: Math.round(smoothed), at: Date.now() });
+      } catch {
+        // A failed read leaves the last value to age out.
+      }
+    };
+    poll();
+    const timer = setInterval(poll, RSSI_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [connected, connection]);
+
+  // Scan while not connected. A failed scan is not restarted, so its error stays visible.
+  const startedScan = useRef(false);
+  const startScan = useCallback(() => {
+    try {
+      registry.startScan('continuous');
+      startedScan.current = true;
+    } catch {
+      // The adapter is not ready; the registry reports why.
+    }
+  }, [registry]);
+  const { scanOpensChooser } = registry;
+  useEffect(() => {
+    if (connected) {
+      if (startedScan.current) {
+        startedScan.current = false;
+        registry.stopScan();
+      }
+    } else if (!scanning && !scanError && !scanOpensChooser) {
+      startScan();
+    }
+  }, [registry, startScan, connected, scanning, scanError, scanOpensChooser]);
+  useEffect(
+    () => () => {
+      if (startedScan.current) registry.stopScan();
+    },
+    [registry]
+  );
+
+  // Re-evaluates staleness while no new readings arrive.
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), RSSI_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const scanned = registryState.foundDevices.find((device) => device.id === id);
+  let sample: RssiSample | null = null;
+  if (connected) {
+    sample = polled;
+  } else if (scanned?.rssi != null) {
+    sample = { rssi: scanned.rssi, at: scanned.lastSeenAt };
+  } else if (state?.rssi != null && state.lastSeenAt !== null) {
+    sample = { rssi: state.rssi, at: state.lastSeenAt };
+  }
+  if (sample && now - sample.at > SPEAKER_SCAN_DEVICE_TTL_MS) {
+    sample = null;
+  }
+
+  const rssi = sample?.rssi ?? null;
+  const sampledAt = sample?.at ?? null;
+  useEffect(() => {
+    if (rssi === null || sampledAt === null) {
+      samples.current = [];
+      setTrend('steady');
+      return;
+    }
+    const history = [...samples.current, { rssi, at: sampledAt }].filter(
+      ({ at }) => sampledAt - at <= TREND_WINDOW_MS
+    );
+    samples.current = history;
+    setTrend(proximityTrend(history));
+  }, [rssi, sampledAt]);
+
+  return {
+    rssi,
+    trend,
+    name: scanned?.name ?? state?.name ?? null,
+    advertisement: scanned?.advertisement ?? state?.advertisement ?? null,
+    connected,
+    chooseSpeaker: scanOpensChooser && !connected && !scanning ? startScan : null,
+  };
+}
@@ -0,0 +1,24 @@
+import { useSyncExternalStore } from 'react';
+
+import { useSpeakerRegistry } from '@/hooks/useSpeakerRegistry';
+
+const noSubscription = () => () => {};
+const noState = () => null;
+
+/**
+ * Returns the connection to the speaker with the given id, or to the selected
+ * speaker when no id is given, together with a snapshot of its state. Both are
+ * `null` when there is no such speaker.
+ */
+export function useSpeakerConnection(id?: string) {
+  const { state: registryState, registry } = useSpeakerRegistry();
+  const speakerId = id ?? registryState.selectedId;
+  const connection = speakerId ? registry.getConnection(speakerId) : null;
+
+  const state = useSyncExternalStore(
+    connection?.subscribe ?? noSubscription,
+    connection?.getState ?? noState
+  );
+
+  return { connection, state };
+}
@@ -0,0 +1,25 @@
+import { useEffect, useRef } from 'react';
+
+import { useSpeakerConnection } from '@/hooks/useSpeakerConnection';
+import { EventPayloads, EventType } from '@/services/speaker/protocol';
+
+/**
+ * Calls `listener` for every `type` event the selected speaker pushes while the
+ * component is mounted. The latest listener is always used, so it may close over state.
+ */
+export function useSpeakerEvent<T extends EventType>(
+  type: T,
+  listener: (payload: EventPayloads[T]) => void
+) {
+  const { connection } = useSpeakerConnection();
+  const listenerRef = useRef(listener);
+
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  useEffect(
+    () => connection?.onEvent(type, (payload) => listenerRef.current(payload)),
+    [connection, type]
+  );
+}
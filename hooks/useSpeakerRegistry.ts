@@ -0,0 +1,18 @@
+import { useContext, useSyncExternalStore } from 'react';
+
+import { SpeakerRegistryContext } from '@/components/SpeakerRegistryProvider';
+
+/**
+ * Returns the shared speaker registry together with a snapshot of its state.
+ * Components re-render whenever the registry state changes.
+ */
+export function useSpeakerRegistry() {
+  const registry = useContext(SpeakerRegistryContext);
+  if (!registry) {
+    throw new Error('useSpeakerRegistry must be used inside a SpeakerRegistryProvider');
+  }
+
+  const state = useSyncExternalStore(registry.subscribe, registry.getState);
+
+  return { registry, state };
+}
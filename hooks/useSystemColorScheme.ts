@@ -0,0 +1 @@
+export { useColorScheme as useSystemColorScheme } from 'react-native';
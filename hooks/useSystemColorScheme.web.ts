@@ -4,7 +4,7 @@ import { useColorScheme as useRNColorScheme } from 'react-native';
 /**
  * To support static rendering, this value needs to be re-calculated on the client side for web
  */
-export function useColorScheme() {
+export function useSystemColorScheme() {
   const [hasHydrated, setHasHydrated] = useState(false);
 
   useEffect(() => {
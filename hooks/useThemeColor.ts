@@ -3,19 +3,24 @@
  * https://docs.expo.dev/guides/color-schemes/
  */
 
-import { Colors } from '@/constants/Colors';
-import { useColorScheme } from '@/hooks/useColorScheme';
+import { ColorName, Colors, HighContrastColors } from '@/constants/Colors';
+import { Radii, Spacing, Typography } from '@/constants/Theme';
+import { useAppearance } from '@/hooks/useAppearance';
 
-export function useThemeColor(
-  props: { light?: string; dark?: string },
-  colorName: keyof typeof Colors.light & keyof typeof Colors.dark
-) {
-  const theme = useColorScheme() ?? 'light';
+export function useThemeColor(props: { light?: string; dark?: string }, colorName: ColorName) {
+  const { scheme: theme, colors } = useTheme();
   const colorFromProps = props[theme];
 
   if (colorFromProps) {
     return colorFromProps;
   } else {
-    return Colors[theme][colorName];
+    return colors[colorName];
   }
 }
+
+/** All design tokens for the current color scheme and contrast, for components that need several. */
+export function useTheme() {
+  const { scheme, highContrast } = useAppearance();
+  const colors: Record<ColorName, string> = (highContrast ? HighContrastColors : Colors)[scheme];
+  return { scheme, highContrast, colors, spacing: Spacing, radii: Radii, typography: Typography };
+}
@@ -0,0 +1,26 @@
+// Native modules the speaker services use, backed by memory and Node for tests.
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-crypto', () => {
+  const crypto = require('node:crypto');
+  return {
+    getRandomBytes: (length: number) => new Uint8Array(crypto.randomBytes(length)),
+    randomUUID: () => crypto.randomUUID(),
+  };
+});
+
+jest.mock('expo-secure-store', () => {
+  const items = new Map<string, string>();
+  return {
+    AFTER_FIRST_UNLOCK: 0,
+    getItemAsync: async (key: string) => items.get(key) ?? null,
+    setItemAsync: async (key: string, value: string) => {
+      items.set(key, value);
+    },
+    deleteItemAsync: async (key: string) => {
+      items.delete(key);
+    },
+  };
+});
@@ -0,0 +1,438 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+
+import { SERIAL_PATTERN, SpeakerAdvertisement } from '@/services/speaker/advertisement';
+import { decodeFirmwareBlock } from '@/services/speaker/firmware';
+import {
+  AlarmKind,
+  createErrorResponse,
+  createEvent,
+  createResponse,
+  decodeFrame,
+  EventFrame,
+  FirmwareTransfer,
+  fromBase64,
+  isUnsealedRequestType,
+  ProtocolError,
+  RequestFrame,
+  ResponseFrame,
+  SealedFrame,
+  SpeakerState,
+  toBase64,
+  WifiNetwork,
+  WifiStatus,
+} from '@/services/speaker/protocol';
+import { randomBytes } from '@/services/speaker/random';
+import {
+  createSessionNonce,
+  deriveSessionKey,
+  generatePairingCode,
+  PairingHandshake,
+  SecureSession,
+} from '@/services/speaker/secureChannel';
+import { DEFAULT_SPEAKER_SETTINGS, SpeakerSettings } from '@/services/speaker/settings';
+
+type EventListener = (event: SealedFrame) => void;
+
+/** Networks the simulated speaker can see, with the passphrase each one accepts. */
+const SIMULATED_NETWORKS: (WifiNetwork & { password: string })[] = [
+  { ssid: 'HomeNetwork', rssi: -48, secure: true, password: 'correcthorse' },
+  { ssid: 'HomeNetwork-5G', rssi: -63, secure: true, password: 'correcthorse' },
+  { ssid: 'Neighbours', rssi: -81, secure: true, password: 'letmein123' },
+  { ssid: 'CoffeeShop Guest', rssi: -74, secure: false, password: '' },
+];
+
+const WIFI_JOIN_DURATION_MS = 2500;
+
+// Wrong codes allowed before pairing is locked, and for how long.
+const MAX_PAIRING_ATTEMPTS = 5;
+const PAIRING_LOCKOUT_MS = 60000;
+
+// How long the speaker blinks its LED after an `identify` request.
+const IDENTIFY_DURATION_MS = 5000;
+
+// Time between answering `firmwareInstall` and going down to reboot, so the answer can be read.
+const FIRMWARE_INSTALL_DELAY_MS = 1000;
+
+/**
+ * Simulated smart speaker. Holds the speaker's settings and live state and answers
+ * protocol requests the way the real device does, independent of how the frames
+ * travel: the bleno server and in-memory test doubles both drive it.
+ *
+ * Like the real device it only answers the handshake requests in the clear. Apps
+ * pair with the code in `pairingCode` and must send everything else sealed within a
+ * session; pairings are kept in memory until the process exits.
+ *
+ * Firmware updates are simulated too: the image is collected from the firmware
+ * characteristic, checked and "installed" by changing `firmwareVersion` and rebooting.
+ *
+ * What the speaker advertises — its serial number and setup state — comes from
+ * `advertisement()`; whoever advertises for it listens with `onAdvertisementChange`.
+ */
+export class MockSpeaker {
+  readonly settings: SpeakerSettings;
+  readonly state: SpeakerState = { volume: 50, muted: false, playback: 'stopped', source: 'bluetooth' };
+  /** Code the speaker would show on its display or QR label. */
+  readonly pairingCode: string;
+  /** Serial number printed on the speaker's label. */
+  readonly serial: string;
+
+  wifiStatus: WifiStatus = { state: 'disconnected', ssid: null, ip: null, reason: null };
+  firmwareVersion: string;
+
+  private readonly startedAt = Date.now();
+  private wifiJoinTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly eventListeners = new Set<EventListener>();
+  // Pairing keys by the client id of the app that paired.
+  private readonly pairedClients = new Map<string, Uint8Array>();
+  private pairing: { clientId: string; handshake: PairingHandshake } | null = null;
+  private failedPairings = 0;
+  private pairingLockedUntil = 0;
+  private session: SecureSession | null = null;
+  // Survives disconnects so an interrupted transfer can resume; lost on reboot.
+  private transfer: (FirmwareTransfer & { image: Uint8Array }) | null = null;
+  private readonly rebootListeners = new Set<() => void>();
+  private readonly advertisementListeners = new Set<() => void>();
+
+  constructor(
+    name: string,
+    {
+      pairingCode = generatePairingCode(),
+      firmwareVersion = '1.0.0',
+      serial = bytesToHex(randomBytes(4)).toUpperCase(),
+    }: { pairingCode?: string; firmwareVersion?: string; serial?: string } = {}
+  ) {
+    if (!SERIAL_PATTERN.test(serial)) {
+      throw new Error(`Serial number "${serial}" must be eight hex digits.`);
+    }
+    this.settings = { ...DEFAULT_SPEAKER_SETTINGS, name, volume: this.state.volume };
+    this.pairingCode = pairingCode;
+    this.firmwareVersion = firmwareVersion;
+    this.serial = serial;
+  }
+
+  /** What the speaker currently puts in its advertisements. */
+  advertisement(): SpeakerAdvertisement {
+    return {
+      serial: this.serial,
+      setupState: this.wifiStatus.state === 'connected' ? 'configured' : 'unconfigured',
+      paired: this.pairedClients.size > 0,
+    };
+  }
+
+  /** Registers a listener called when `advertisement()` may have changed. */
+  onAdvertisementChange(listener: () => void) {
+    this.advertisementListeners.add(listener);
+    return () => {
+      this.advertisementListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Registers a listener called when the speaker reboots after a firmware update. The
+   * listener should drop the link and stop advertising for a while, as the device would.
+   */
+  onReboot(listener: () => void) {
+    this.rebootListeners.add(listener);
+    return () => {
+      this.rebootListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Registers a listener for events the speaker pushes; returns a function that removes
+   * it. Events are sealed, so none are pushed until an app has started a session.
+   */
+  onEvent(listener: EventListener) {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Decodes a complete message and returns the response to send back, sealed when the
+   * request was. Never throws.
+   */
+  handleMessage(message: Uint8Array): ResponseFrame | SealedFrame {
+    try {
+      const frame = decodeFrame(message);
+      if (frame.kind === 'sealed') {
+        return this.handleSealed(frame);
+      }
+      if (frame.kind !== 'request') {
+        return createErrorResponse(0, null, 'MALFORMED_FRAME', 'Only requests are accepted.');
+      }
+      console.log(`Request ${frame.id}: ${frame.type}`, frame.payload);
+      if (!isUnsealedRequestType(frame.type)) {
+        return createErrorResponse(
+          frame.id,
+          frame.type,
+          'UNAUTHENTICATED',
+          `"${frame.type}" must be sent within a secure session.`
+        );
+      }
+      return this.handleRequest(frame);
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        console.warn('Rejected frame:', error.code, error.message);
+        return createErrorResponse(error.frameId, null, error.code, error.message);
+      }
+      console.error('Request handling error:', error);
+      return createErrorResponse(0, null, 'INTERNAL', (error as Error).message);
+    }
+  }
+
+  /**
+   * Handles one block written to the firmware characteristic. Blocks that arrive
+   * outside a session or transfer, are damaged or do not continue the image are
+   * dropped; the app notices from the transfer's `received` count and resends.
+   */
+  writeFirmwareBlock(bytes: Uint8Array) {
+    const { transfer } = this;
+    if (!this.session || !transfer) {
+      console.warn('Dropped firmware block: no transfer in progress');
+      return;
+    }
+    const block = decodeFirmwareBlock(bytes);
+    if (!block) {
+      console.warn('Dropped damaged firmware block');
+      return;
+    }
+    if (block.offset !== transfer.received || block.offset + block.data.length > transfer.size) {
+      console.warn(`Dropped firmware block at ${block.offset}, expected ${transfer.received}`);
+      return;
+    }
+    transfer.image.set(block.data, block.offset);
+    transfer.received += block.data.length;
+  }
+
+  /** Drops the secure session and any pairing in progress; call when the app disconnects. */
+  endSession() {
+    this.session = null;
+    this.pairing = null;
+  }
+
+  /** Applies a change to the live state, as the physical controls would, and notifies listeners. */
+  updateState(changes: Partial<SpeakerState>) {
+    Object.assign(this.state, changes);
+    this.state.volume = Math.min(100, Math.max(0, this.state.volume));
+    this.settings.volume = this.state.volume;
+    console.log('Speaker state:', this.state);
+    this.emit(createEvent('stateChanged', { ...this.state }));
+  }
+
+  /** Sets off an alarm or timer, as if one the user set on the speaker had gone off. */
+  fireAlarm(kind: AlarmKind, label: string | null = null) {
+    console.log(`*beep beep* ${kind === 'alarm' ? 'Alarm' : 'Timer'}${label ? ` "${label}"` : ''} went off`);
+    this.emit(createEvent('alarm', { kind, label }));
+  }
+
+  private handleSealed(sealed: SealedFrame) {
+    const { session } = this;
+    if (!session) {
+      throw new ProtocolError('UNAUTHENTICATED', 'No secure session; send "sessionStart" first.');
+    }
+    const frame = session.open(sealed);
+    if (frame.kind !== 'request') {
+      throw new ProtocolError('MALFORMED_FRAME', 'Only requests are accepted.');
+    }
+    // Payloads may hold credentials, so only the type is logged.
+    console.log(`Sealed request ${frame.id}: ${frame.type}`);
+    return session.seal(this.handleRequest(frame));
+  }
+
+  private handleRequest(request: RequestFrame): ResponseFrame {
+    switch (request.type) {
+      case 'ping':
+        return createResponse(request as RequestFrame<'ping'>, {
+          uptime: Math.round((Date.now() - this.startedAt) / 1000),
+        });
+      case 'pairStart':
+        return this.startPairing(request as RequestFrame<'pairStart'>);
+      case 'pairConfirm':
+        return this.confirmPairing(request as RequestFrame<'pairConfirm'>);
+      case 'sessionStart': {
+        const { clientId, nonce } = (request as RequestFrame<'sessionStart'>).payload;
+        const pairingKey = this.pairedClients.get(clientId);
+        if (!pairingKey) {
+          return createErrorResponse(request.id, request.type, 'UNAUTHENTICATED', 'This app is not paired.');
+        }
+        const speakerNonce = createSessionNonce();
+        this.session = new SecureSession(deriveSessionKey(pairingKey, fromBase64(nonce), speakerNonce), 'speaker');
+        console.log(`Secure session started for app ${clientId}`);
+        return createResponse(request as RequestFrame<'sessionStart'>, { nonce: toBase64(speakerNonce) });
+      }
+      case 'getSettings':
+        return createResponse(request as RequestFrame<'getSettings'>, { ...this.settings });
+      case 'setSettings': {
+        // Values were checked against the settings schema when the frame was decoded.
+        const changes = (request as RequestFrame<'setSettings'>).payload;
+        const { volume } = changes;
+        Object.assign(this.settings, changes);
+        console.log('Settings updated:', this.settings);
+        if (volume !== undefined && volume !== this.state.volume) {
+          this.updateState({ volume });
+        }
+        return createResponse(request as RequestFrame<'setSettings'>, { ...this.settings });
+      }
+      case 'getState':
+        return createResponse(request as RequestFrame<'getState'>, { ...this.state });
+      case 'updateState':
+        this.updateState((request as RequestFrame<'updateState'>).payload);
+        return createResponse(request as RequestFrame<'updateState'>, { ...this.state });
+      case 'wifiScan':
+        return createResponse(request as RequestFrame<'wifiScan'>, {
+          networks: SIMULATED_NETWORKS.map(({ ssid, rssi, secure }) => ({ ssid, rssi, secure })),
+        });
+      case 'wifiConnect': {
+        const { ssid, password } = (request as RequestFrame<'wifiConnect'>).payload;
+        this.joinWifi(ssid, password);
+        return createResponse(request as RequestFrame<'wifiConnect'>, { ...this.wifiStatus });
+      }
+      case 'getWifiStatus':
+        return createResponse(request as RequestFrame<'getWifiStatus'>, { ...this.wifiStatus });
+      case 'getFirmware':
+        return createResponse(request as RequestFrame<'getFirmware'>, {
+          version: this.firmwareVersion,
+          transfer: this.transferInfo(),
+        });
+      case 'firmwareBegin': {
+        const { version, size, sha256 } = (request as RequestFrame<'firmwareBegin'>).payload;
+        const { transfer } = this;
+        if (transfer && transfer.version === version && transfer.size === size && transfer.sha256 === sha256) {
+          console.log(`Resuming firmware ${version} at ${transfer.received} of ${size} bytes`);
+        } else {
+          console.log(`Receiving firmware ${version} (${size} bytes)`);
+          this.transfer = { version, size, sha256, received: 0, image: new Uint8Array(size) };
+        }
+        return createResponse(request as RequestFrame<'firmwareBegin'>, this.transferInfo()!);
+      }
+      case 'firmwareInstall':
+        return this.installFirmware(request as RequestFrame<'firmwareInstall'>);
+      case 'identify':
+        console.log(`*chime* Blinking the LED for ${IDENTIFY_DURATION_MS / 1000}s`);
+        return createResponse(request as RequestFrame<'identify'>, { durationMs: IDENTIFY_DURATION_MS });
+      case 'firmwareAbort':
+        this.transfer = null;
+        return createResponse(request as RequestFrame<'firmwareAbort'>, {});
+    }
+  }
+
+  private transferInfo(): FirmwareTransfer | null {
+    if (!this.transfer) {
+      return null;
+    }
+    const { version, size, sha256, received } = this.transfer;
+    return { version, size, sha256, received };
+  }
+
+  private installFirmware(request: RequestFrame<'firmwareInstall'>): ResponseFrame {
+    const { transfer } = this;
+    if (!transfer || transfer.received < transfer.size) {
+      return createErrorResponse(request.id, request.type, 'REJECTED', 'The firmware image is incomplete.');
+    }
+    this.transfer = null;
+    if (bytesToHex(sha256(transfer.image)) !== transfer.sha256) {
+      return createErrorResponse(
+        request.id,
+        request.type,
+        'REJECTED',
+        'The firmware image is corrupt; send it again.'
+      );
+    }
+
+    console.log(`Installing firmware ${transfer.version}...`);
+    setTimeout(() => {
+      this.firmwareVersion = transfer.version;
+      this.endSession();
+      console.log(`Rebooting into firmware ${transfer.version}`);
+      this.rebootListeners.forEach((listener) => listener());
+    }, FIRMWARE_INSTALL_DELAY_MS);
+    return createResponse(request, { version: transfer.version });
+  }
+
+  private startPairing(request: RequestFrame<'pairStart'>): ResponseFrame {
+    const lockedFor = this.pairingLockedUntil - Date.now();
+    if (lockedFor > 0) {
+      return createErrorResponse(
+        request.id,
+        request.type,
+        'REJECTED',
+        `Too many wrong codes. Try again in ${Math.ceil(lockedFor / 1000)}s.`
+      );
+    }
+
+    const { clientId, share } = request.payload;
+    const handshake = new PairingHandshake('speaker', this.pairingCode, clientId);
+    try {
+      handshake.receive(fromBase64(share));
+    } catch (error) {
+      const { code, message } = error as ProtocolError;
+      return createErrorResponse(request.id, request.type, code, message);
+    }
+    this.pairing = { clientId, handshake };
+    return createResponse(request, { share: toBase64(handshake.share) });
+  }
+
+  private confirmPairing(request: RequestFrame<'pairConfirm'>): ResponseFrame {
+    const { clientId, mac } = request.payload;
+    // Each exchange gets a single confirmation, so every guess costs a new exchange.
+    const { pairing } = this;
+    this.pairing = null;
+    if (!pairing || pairing.clientId !== clientId) {
+      return createErrorResponse(request.id, request.type, 'REJECTED', 'No pairing in progress.');
+    }
+
+    if (!pairing.handshake.verify(fromBase64(mac))) {
+      this.failedPairings++;
+      if (this.failedPairings >= MAX_PAIRING_ATTEMPTS) {
+        this.failedPairings = 0;
+        this.pairingLockedUntil = Date.now() + PAIRING_LOCKOUT_MS;
+      }
+      console.warn(`Pairing with app ${clientId} failed: wrong code`);
+      return createErrorResponse(request.id, request.type, 'UNAUTHENTICATED', 'Incorrect pairing code.');
+    }
+
+    this.failedPairings = 0;
+    this.pairedClients.set(clientId, pairing.handshake.pairingKey);
+    console.log(`Paired with app ${clientId}`);
+    this.advertisementListeners.forEach((listener) => listener());
+    return createResponse(request, { mac: toBase64(pairing.handshake.confirmation()) });
+  }
+
+  /** Simulates joining a network: reports `joining` now and the outcome a little later. */
+  private joinWifi(ssid: string, password: string) {
+    if (this.wifiJoinTimer) {
+      clearTimeout(this.wifiJoinTimer);
+    }
+    this.setWifiStatus({ state: 'joining', ssid, ip: null, reason: null });
+
+    this.wifiJoinTimer = setTimeout(() => {
+      this.wifiJoinTimer = null;
+      const network = SIMULATED_NETWORKS.find((n) => n.ssid === ssid);
+      if (!network) {
+        this.setWifiStatus({ state: 'failed', ssid, ip: null, reason: 'Network not found.' });
+      } else if (network.secure && network.password !== password) {
+        this.setWifiStatus({ state: 'failed', ssid, ip: null, reason: 'Incorrect password.' });
+      } else {
+        this.setWifiStatus({ state: 'connected', ssid, ip: '192.168.1.42', reason: null });
+      }
+    }, WIFI_JOIN_DURATION_MS);
+  }
+
+  private setWifiStatus(status: WifiStatus) {
+    this.wifiStatus = status;
+    console.log('Wi-Fi status:', status);
+    this.emit(createEvent('wifiStatus', { ...status }));
+    this.advertisementListeners.forEach((listener) => listener());
+  }
+
+  private emit(event: EventFrame) {
+    if (!this.session) {
+      return;
+    }
+    const sealed = this.session.seal(event);
+    this.eventListeners.forEach((listener) => listener(sealed));
+  }
+}
@@ -0,0 +1,87 @@
+import { FaultInjector } from '@/peripheral/faults';
+import { MockSpeaker } from '@/peripheral/MockSpeaker';
+import { ChunkAssembler, DEFAULT_MTU, nextMessageId, splitIntoChunks } from '@/services/speaker/framing';
+import { createErrorResponse, encodeFrame, Frame, ProtocolError } from '@/services/speaker/protocol';
+
+/**
+ * GATT-level behaviour of the mock speaker's characteristics: chunk reassembly on
+ * the control characteristic, one response chunk per read, and chunked event
+ * notifications. The bleno server and the in-memory fake transport both delegate
+ * to it so they behave identically.
+ */
+export class SpeakerGattServer {
+  mtu = DEFAULT_MTU;
+
+  private readonly assembler = new ChunkAssembler();
+  private lastMessageId = 0;
+  private lastEventMessageId = 0;
+  // The app reads the answer to its last request back from the control characteristic.
+  private pendingChunks: Uint8Array[] = [];
+  // Set while the app is subscribed to the events characteristic.
+  private notify: ((chunk: Uint8Array) => void) | null = null;
+
+  constructor(
+    readonly speaker: MockSpeaker,
+    readonly faults: FaultInjector
+  ) {
+    speaker.onEvent((event) => {
+      if (!this.notify || faults.config.dropEvents) {
+        return;
+      }
+      this.lastEventMessageId = nextMessageId(this.lastEventMessageId);
+      splitIntoChunks(this.lastEventMessageId, encodeFrame(event), this.mtu).forEach((chunk) =>
+        this.notify?.(chunk)
+      );
+    });
+  }
+
+  /** Handles one chunk written to the control characteristic; resolves when it is acknowledged. */
+  async writeControl(chunk: Uint8Array) {
+    let response: Frame;
+    try {
+      const message = this.assembler.push(chunk);
+      if (!message) {
+        // Wait for the remaining chunks of this message.
+        return;
+      }
+      response = this.speaker.handleMessage(message);
+    } catch (error) {
+      const { code, message } = error as ProtocolError;
+      console.warn('Rejected chunk:', message);
+      response = createErrorResponse(0, null, code, message);
+    }
+
+    await this.faults.delay();
+    this.lastMessageId = nextMessageId(this.lastMessageId);
+    this.pendingChunks = splitIntoChunks(this.lastMessageId, this.faults.corrupt(encodeFrame(response)), this.mtu);
+  }
+
+  /** Handles one block written to the firmware characteristic. */
+  writeFirmware(block: Uint8Array) {
+    this.speaker.writeFirmwareBlock(block);
+  }
+
+  /** Returns the next chunk of the pending response, or `null` when there is none. */
+  readControl() {
+    return this.pendingChunks.shift() ?? null;
+  }
+
+  subscribeEvents(notify: (chunk: Uint8Array) => void) {
+    console.log('App subscribed to speaker events');
+    this.notify = notify;
+  }
+
+  unsubscribeEvents() {
+    console.log('App unsubscribed from speaker events');
+    this.notify = null;
+  }
+
+  /** Forgets everything tied to the current client; call when it disconnects. */
+  reset() {
+    this.assembler.reset();
+    this.pendingChunks = [];
+    this.notify = null;
+    this.mtu = DEFAULT_MTU;
+    this.speaker.endSession();
+  }
+}
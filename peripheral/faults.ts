@@ -0,0 +1,90 @@
+import { SpeakerState } from '@/services/speaker/protocol';
+
+/** Misbehaviour the mock speaker is currently simulating. */
+export type FaultConfig = {
+  /** Extra delay before each response becomes readable. */
+  responseDelayMs: number;
+  /** Number of upcoming responses to corrupt so they fail to decode. */
+  malformedResponses: number;
+  /** Whether state events are silently dropped instead of notified. */
+  dropEvents: boolean;
+};
+
+/** One step of a fault script, run `at` milliseconds after the app connects. */
+export type FaultStep = { at: number } & (
+  | { action: 'delay'; ms: number }
+  | { action: 'malformed'; count?: number }
+  | { action: 'dropEvents'; enabled: boolean }
+  | { action: 'disconnect' }
+  | { action: 'setState'; state: Partial<SpeakerState> }
+);
+
+export type FaultHandlers = {
+  disconnect: () => void;
+  setState: (state: Partial<SpeakerState>) => void;
+};
+
+/**
+ * Applies fault settings and timed fault scripts to the mock speaker so the app's
+ * timeout, retry and reconnect paths can be exercised without real radio trouble.
+ */
+export class FaultInjector {
+  readonly config: FaultConfig = { responseDelayMs: 0, malformedResponses: 0, dropEvents: false };
+
+  private timers: ReturnType<typeof setTimeout>[] = [];
+
+  constructor(
+    private readonly handlers: FaultHandlers,
+    private readonly script: FaultStep[] = []
+  ) {}
+
+  apply(step: FaultStep) {
+    console.log(`Fault: ${step.action}`);
+    switch (step.action) {
+      case 'delay':
+        this.config.responseDelayMs = step.ms;
+        break;
+      case 'malformed':
+        this.config.malformedResponses += step.count ?? 1;
+        break;
+      case 'dropEvents':
+        this.config.dropEvents = step.enabled;
+        break;
+      case 'disconnect':
+        this.handlers.disconnect();
+        break;
+      case 'setState':
+        this.handlers.setState(step.state);
+        break;
+    }
+  }
+
+  /** Starts the fault script; call when a client connects. */
+  startScript() {
+    this.stopScript();
+    this.timers = this.script.map((step) => setTimeout(() => this.apply(step), step.at));
+  }
+
+  stopScript() {
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+  }
+
+  /** Returns `bytes` unchanged, or a corrupted copy while malformed responses are pending. */
+  corrupt(bytes: Uint8Array) {
+    if (this.config.malformedResponses === 0) {
+      return bytes;
+    }
+    this.config.malformedResponses--;
+    const corrupted = Uint8Array.from(bytes);
+    // Breaking the opening brace is enough to make the frame invalid JSON.
+    corrupted[0] = 0xff;
+    return corrupted;
+  }
+
+  /** Waits for the configured response delay. */
+  delay() {
+    const { responseDelayMs } = this.config;
+    return new Promise<void>((resolve) => setTimeout(resolve, responseDelayMs));
+  }
+}
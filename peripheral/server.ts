@@ -0,0 +1,267 @@
+/**
+ * Mock smart speaker peripheral. Advertises the same GATT service as the Raspberry Pi
+ * speaker and speaks the app's protocol, so the app can be developed against a laptop.
+ *
+ *   npm run peripheral -- [--name MySpeaker] [--pairing-code 123456] [--firmware-version 1.0.0]
+ *     [--serial 1A2B3C4D] [--delay 500] [--script faults.json]
+ */
+import bleno from '@abandonware/bleno';
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+
+import {
+  SPEAKER_CONTROL_CHARACTERISTIC_UUID,
+  SPEAKER_EVENTS_CHARACTERISTIC_UUID,
+  SPEAKER_FIRMWARE_CHARACTERISTIC_UUID,
+  SPEAKER_NAME_TARGET,
+  SPEAKER_SERVICE_UUID,
+} from '@/constants/Speaker';
+import { FaultInjector, FaultStep } from '@/peripheral/faults';
+import { MockSpeaker } from '@/peripheral/MockSpeaker';
+import { SpeakerGattServer } from '@/peripheral/SpeakerGattServer';
+import { encodeManufacturerData, SERIAL_PATTERN } from '@/services/speaker/advertisement';
+import { FIRMWARE_VERSION_PATTERN } from '@/services/speaker/firmware';
+import { normalizePairingCode, PAIRING_CODE_LENGTH } from '@/services/speaker/secureChannel';
+import { createSetupLink } from '@/services/speaker/setupLink';
+
+const { values: options } = parseArgs({
+  options: {
+    name: { type: 'string', default: SPEAKER_NAME_TARGET },
+    'pairing-code': { type: 'string' },
+    'firmware-version': { type: 'string' },
+    serial: { type: 'string' },
+    delay: { type: 'string', default: '0' },
+    script: { type: 'string' },
+  },
+});
+
+function loadFaultScript(path: string): FaultStep[] {
+  const steps = JSON.parse(readFileSync(path, 'utf8'));
+  if (!Array.isArray(steps)) {
+    throw new Error(`Fault script ${path} must contain an array of steps.`);
+  }
+  return steps as FaultStep[];
+}
+
+const pairingCode = options['pairing-code'] === undefined ? undefined : normalizePairingCode(options['pairing-code']);
+if (pairingCode === null) {
+  throw new Error(`--pairing-code must have ${PAIRING_CODE_LENGTH} digits.`);
+}
+
+const firmwareVersion = options['firmware-version'];
+if (firmwareVersion !== undefined && !FIRMWARE_VERSION_PATTERN.test(firmwareVersion)) {
+  throw new Error('--firmware-version must look like 1.2.3.');
+}
+
+const serial = options.serial?.toUpperCase();
+if (serial !== undefined && !SERIAL_PATTERN.test(serial)) {
+  throw new Error('--serial must have eight hex digits.');
+}
+
+// How long the speaker stays off the air while it "reboots" into new firmware.
+const REBOOT_DURATION_MS = 3000;
+
+const speaker = new MockSpeaker(options.name, { pairingCode, firmwareVersion, serial });
+const faults = new FaultInjector(
+  {
+    disconnect: () => bleno.disconnect(),
+    setState: (state) => speaker.updateState(state),
+  },
+  options.script ? loadFaultScript(options.script) : []
+);
+faults.config.responseDelayMs = Number(options.delay);
+
+const gatt = new SpeakerGattServer(speaker, faults);
+
+const controlCharacteristic = new bleno.Characteristic({
+  uuid: SPEAKER_CONTROL_CHARACTERISTIC_UUID,
+  properties: ['read', 'write'],
+  descriptors: [new bleno.Descriptor({ uuid: '2901', value: 'Control' })],
+  onWriteRequest: (data, offset, withoutResponse, callback) => {
+    gatt.writeControl(data).then(() => callback(bleno.Characteristic.RESULT_SUCCESS));
+  },
+  onReadRequest: (offset, callback) => {
+    const chunk = gatt.readControl();
+    if (!chunk) {
+      callback(bleno.Characteristic.RESULT_UNLIKELY_ERROR);
+      return;
+    }
+    callback(bleno.Characteristic.RESULT_SUCCESS, Buffer.from(chunk));
+  },
+});
+
+const eventsCharacteristic = new bleno.Characteristic({
+  uuid: SPEAKER_EVENTS_CHARACTERISTIC_UUID,
+  properties: ['notify'],
+  descriptors: [new bleno.Descriptor({ uuid: '2901', value: 'Events' })],
+  onSubscribe: (maxValueSize, updateValueCallback) => {
+    gatt.subscribeEvents((chunk) => updateValueCallback(Buffer.from(chunk)));
+  },
+  onUnsubscribe: () => gatt.unsubscribeEvents(),
+});
+
+const firmwareCharacteristic = new bleno.Characteristic({
+  uuid: SPEAKER_FIRMWARE_CHARACTERISTIC_UUID,
+  properties: ['write'],
+  descriptors: [new bleno.Descriptor({ uuid: '2901', value: 'Firmware' })],
+  onWriteRequest: (data, offset, withoutResponse, callback) => {
+    gatt.writeFirmware(data);
+    callback(bleno.Characteristic.RESULT_SUCCESS);
+  },
+});
+
+console.log(`Starting mock speaker "${options.name}" with firmware ${speaker.firmwareVersion}...`);
+console.log(`Pairing code: ${speaker.pairingCode}, serial number: ${speaker.serial}`);
+console.log(
+  `Setup link: ${createSetupLink({ serial: speaker.serial, name: options.name, pairingCode: speaker.pairingCode })}`
+);
+
+// Advertising data types from the Bluetooth Core Specification Supplement.
+const AD_FLAGS = 0x01;
+const AD_COMPLETE_SERVICE_UUIDS_128 = 0x07;
+const AD_SHORTENED_NAME = 0x08;
+const AD_COMPLETE_NAME = 0x09;
+const AD_MANUFACTURER_DATA = 0xff;
+// LE General Discoverable, BR/EDR not supported.
+const DISCOVERABLE_LE_ONLY = 0x06;
+const MAX_AD_LENGTH = 31;
+
+function adStructure(type: number, data: Uint8Array) {
+  return Buffer.concat([Buffer.from([data.length + 1, type]), data]);
+}
+
+/**
+ * Builds the advertising packet (flags, the service UUID and the speaker's manufacturer
+ * data, which together fill all 31 bytes) and the scan response carrying the name.
+ */
+function advertisingData() {
+  const serviceUuid = Buffer.from(SPEAKER_SERVICE_UUID.replace(/-/g, ''), 'hex').reverse();
+  const advertisement = Buffer.concat([
+    adStructure(AD_FLAGS, Uint8Array.of(DISCOVERABLE_LE_ONLY)),
+    adStructure(AD_COMPLETE_SERVICE_UUIDS_128, serviceUuid),
+    adStructure(AD_MANUFACTURER_DATA, encodeManufacturerData(speaker.advertisement())),
+  ]);
+  const name = Buffer.from(options.name, 'utf8');
+  const maxNameLength = MAX_AD_LENGTH - 2;
+  const scanResponse =
+    name.length > maxNameLength
+      ? adStructure(AD_SHORTENED_NAME, name.subarray(0, maxNameLength))
+      : adStructure(AD_COMPLETE_NAME, name);
+  return { advertisement, scanResponse };
+}
+
+function startAdvertising() {
+  const { advertisement, scanResponse } = advertisingData();
+  bleno.startAdvertisingWithEIRData(advertisement, scanResponse, (error) => {
+    if (error) console.error('Advertising error:', error);
+    else console.log(`Started advertising as "${options.name}" (${JSON.stringify(speaker.advertisement())})`);
+  });
+}
+
+// Keep the advertised setup state current, e.g. once the speaker has joined Wi-Fi.
+speaker.onAdvertisementChange(() => {
+  if (bleno.state === 'poweredOn') {
+    startAdvertising();
+  }
+});
+
+speaker.onReboot(() => {
+  bleno.disconnect();
+  bleno.stopAdvertising();
+  setTimeout(() => {
+    console.log(`Back up with firmware ${speaker.firmwareVersion}`);
+    startAdvertising();
+  }, REBOOT_DURATION_MS);
+});
+
+bleno.on('stateChange', (state) => {
+  console.log('Bluetooth state changed to:', state);
+
+  if (state === 'poweredOn') {
+    startAdvertising();
+  } else {
+    console.log('Stopping advertising due to Bluetooth state:', state);
+    bleno.stopAdvertising();
+  }
+});
+
+bleno.on('advertisingStart', (error) => {
+  if (error) {
+    console.error('Advertising start error:', error);
+    return;
+  }
+
+  const service = new bleno.PrimaryService({
+    uuid: SPEAKER_SERVICE_UUID,
+    characteristics: [controlCharacteristic, eventsCharacteristic, firmwareCharacteristic],
+  });
+
+  bleno.setServices([service], (error) => {
+    if (error) console.error('Set services error:', error);
+    else console.log('Speaker service initialized successfully');
+  });
+});
+
+bleno.on('mtuChange', (newMtu) => {
+  console.log(`MTU changed to ${newMtu}`);
+  gatt.mtu = newMtu;
+});
+
+bleno.on('accept', (clientAddress) => {
+  console.log(`Client connected: ${clientAddress}`);
+  faults.startScript();
+});
+
+bleno.on('disconnect', (clientAddress) => {
+  console.log(`Client disconnected: ${clientAddress}`);
+  faults.stopScript();
+  gatt.reset();
+});
+
+// Simulate the physical controls and faults from the terminal.
+const KEYS = `Keys: +/- volume, m mute, p play/pause, a alarm, t timer, s slow responses,
+      x malformed response, e drop events, d disconnect, Ctrl+C exit`;
+
+if (process.stdin.isTTY) {
+  process.stdin.setRawMode(true);
+  process.stdin.on('data', (key) => {
+    const { state } = speaker;
+    switch (key.toString()) {
+      case '+':
+        speaker.updateState({ volume: state.volume + 5 });
+        break;
+      case '-':
+        speaker.updateState({ volume: state.volume - 5 });
+        break;
+      case 'm':
+        speaker.updateState({ muted: !state.muted });
+        break;
+      case 'p':
+        speaker.updateState({ playback: state.playback === 'playing' ? 'paused' : 'playing' });
+        break;
+      case 'a':
+        speaker.fireAlarm('alarm', 'Wake up');
+        break;
+      case 't':
+        speaker.fireAlarm('timer', 'Pasta');
+        break;
+      case 's':
+        faults.apply({ at: 0, action: 'delay', ms: faults.config.responseDelayMs ? 0 : 2000 });
+        break;
+      case 'x':
+        faults.apply({ at: 0, action: 'malformed' });
+        break;
+      case 'e':
+        faults.apply({ at: 0, action: 'dropEvents', enabled: !faults.config.dropEvents });
+        break;
+      case 'd':
+        faults.apply({ at: 0, action: 'disconnect' });
+        break;
+      case '\u0003': // Ctrl+C
+        process.exit(0);
+    }
+  });
+  console.log(KEYS);
+}
+
+console.log('Mock speaker is running. Press Ctrl+C to exit.');
@@ -0,0 +1,44 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = 'app.appearance';
+
+export type AppearanceMode = 'system' | 'light' | 'dark';
+
+export const APPEARANCE_MODES: readonly AppearanceMode[] = ['system', 'light', 'dark'];
+
+/** How the user wants the app to look, whatever the system is set to. */
+export type AppearancePreference = {
+  mode: AppearanceMode;
+  highContrast: boolean;
+};
+
+export const DEFAULT_APPEARANCE: AppearancePreference = { mode: 'system', highContrast: false };
+
+function isAppearancePreference(value: unknown): value is AppearancePreference {
+  const preference = value as AppearancePreference | null;
+  return (
+    typeof preference === 'object' &&
+    preference !== null &&
+    APPEARANCE_MODES.includes(preference.mode) &&
+    typeof preference.highContrast === 'boolean'
+  );
+}
+
+export async function loadAppearance(): Promise<AppearancePreference> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    return isAppearancePreference(parsed) ? parsed : DEFAULT_APPEARANCE;
+  } catch (error) {
+    console.error('Failed to load the appearance setting:', error);
+    return DEFAULT_APPEARANCE;
+  }
+}
+
+export async function saveAppearance(preference: AppearancePreference) {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(preference));
+  } catch (error) {
+    console.error('Failed to save the appearance setting:', error);
+  }
+}
@@ -0,0 +1,169 @@
+import { Buffer } from 'buffer';
+import { BleManager, Characteristic } from 'react-native-ble-plx';
+
+import { checkBluetoothPermissions, requestBluetoothPermissions } from '@/services/speaker/permissions';
+import {
+  CharacteristicProperty,
+  ConnectedDevice,
+  ConnectOptions,
+  GattService,
+  ScannedDevice,
+  SpeakerTransport,
+} from '@/services/speaker/transport';
+
+function toBytes(base64: string | null) {
+  return Uint8Array.from(Buffer.from(base64 || '', 'base64'));
+}
+
+function propertiesOf(characteristic: Characteristic) {
+  const properties: CharacteristicProperty[] = [];
+  if (characteristic.isReadable) properties.push('read');
+  if (characteristic.isWritableWithResponse) properties.push('write');
+  if (characteristic.isWritableWithoutResponse) properties.push('writeWithoutResponse');
+  if (characteristic.isNotifiable) properties.push('notify');
+  if (characteristic.isIndicatable) properties.push('indicate');
+  return properties;
+}
+
+/** Speaker transport backed by react-native-ble-plx. */
+export class BlePlxTransport implements SpeakerTransport {
+  constructor(private readonly manager: BleManager) {}
+
+  onStateChange(listener: Parameters<SpeakerTransport['onStateChange']>[0]) {
+    const subscription = this.manager.onStateChange(listener, true);
+    return () => subscription.remove();
+  }
+
+  checkPermissions() {
+    return checkBluetoothPermissions();
+  }
+
+  requestPermissions() {
+    return requestBluetoothPermissions();
+  }
+
+  startScan(
+    serviceUuids: string[],
+    listener: (error: Error | null, device: ScannedDevice | null) => void
+  ) {
+    // Without duplicates iOS reports each device once, so its signal strength would never update.
+    this.manager.startDeviceScan(serviceUuids, { allowDuplicates: true }, (error, device) => {
+      listener(
+        error,
+        device && {
+          id: device.id,
+          name: device.name,
+          rssi: device.rssi,
+          manufacturerData: device.manufacturerData ? toBytes(device.manufacturerData) : null,
+          serviceData:
+            device.serviceData &&
+            Object.fromEntries(Object.entries(device.serviceData).map(([uuid, value]) => [uuid, toBytes(value)])),
+        }
+      );
+    });
+  }
+
+  stopScan() {
+    this.manager.stopDeviceScan();
+  }
+
+  async connect(deviceId: string, { requestMtu }: ConnectOptions): Promise<ConnectedDevice> {
+    const device = await this.manager.connectToDevice(deviceId, { autoConnect: false, requestMTU: requestMtu });
+    return { id: device.id, name: device.name, mtu: device.mtu };
+  }
+
+  async discover(deviceId: string) {
+    await this.manager.discoverAllServicesAndCharacteristicsForDevice(deviceId);
+  }
+
+  async services(deviceId: string): Promise<GattService[]> {
+    const services = await this.manager.servicesForDevice(deviceId);
+    return Promise.all(
+      services.map(async (service) => {
+        const characteristics = await this.manager.characteristicsForDevice(deviceId, service.uuid);
+        return {
+          uuid: service.uuid,
+          characteristics: await Promise.all(
+            characteristics.map(async (characteristic) => {
+              const descriptors = await this.manager.descriptorsForDevice(
+                deviceId,
+                service.uuid,
+                characteristic.uuid
+              );
+              return {
+                uuid: characteristic.uuid,
+                serviceUuid: service.uuid,
+                properties: propertiesOf(characteristic),
+                descriptors: await Promise.all(
+                  descriptors.map(async (descriptor) => ({
+                    uuid: descriptor.uuid,
+                    // Some descriptors need authentication to read; list them anyway.
+                    value: await descriptor.read().then(
+                      (read) => toBytes(read.value),
+                      () => null
+                    ),
+                  }))
+                ),
+              };
+            })
+          ),
+        };
+      })
+    );
+  }
+
+  async disconnect(deviceId: string) {
+    await this.manager.cancelDeviceConnection(deviceId);
+  }
+
+  onDisconnected(deviceId: string, listener: (error: Error | null) => void) {
+    const subscription = this.manager.onDeviceDisconnected(deviceId, (error) => listener(error));
+    return () => subscription.remove();
+  }
+
+  async readRssi(deviceId: string) {
+    const { rssi } = await this.manager.readRSSIForDevice(deviceId);
+    if (rssi === null) {
+      throw new Error(`No signal strength reported for ${deviceId}`);
+    }
+    return rssi;
+  }
+
+  async read(deviceId: string, serviceUuid: string, characteristicUuid: string) {
+    const characteristic = await this.manager.readCharacteristicForDevice(deviceId, serviceUuid, characteristicUuid);
+    return toBytes(characteristic.value);
+  }
+
+  async write(deviceId: string, serviceUuid: string, characteristicUuid: string, value: Uint8Array) {
+    await this.manager.writeCharacteristicWithResponseForDevice(
+      deviceId,
+      serviceUuid,
+      characteristicUuid,
+      Buffer.from(value).toString('base64')
+    );
+  }
+
+  async writeWithoutResponse(deviceId: string, serviceUuid: string, characteristicUuid: string, value: Uint8Array) {
+    await this.manager.writeCharacteristicWithoutResponseForDevice(
+      deviceId,
+      serviceUuid,
+      characteristicUuid,
+      Buffer.from(value).toString('base64')
+    );
+  }
+
+  monitor(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    listener: (error: Error | null, value: Uint8Array | null) => void
+  ) {
+    const subscription = this.manager.monitorCharacteristicForDevice(
+      deviceId,
+      serviceUuid,
+      characteristicUuid,
+      (error, characteristic) => listener(error, characteristic && toBytes(characteristic.value))
+    );
+    return () => subscription.remove();
+  }
+}
@@ -0,0 +1,178 @@
+import { errorDetails, eventLog } from '@/services/speaker/eventLog';
+import { ProtocolError } from '@/services/speaker/protocol';
+
+export type RetryPolicy = {
+  /** Total number of tries, including the first one. */
+  attempts: number;
+  /** Pause between tries. */
+  delayMs: number;
+};
+
+export type CommandOptions = {
+  timeoutMs: number;
+  retry: RetryPolicy;
+};
+
+export const NO_RETRY: RetryPolicy = { attempts: 1, delayMs: 0 };
+
+/** A command did not complete within its timeout. */
+export class CommandTimeoutError extends Error {
+  constructor(label: string, timeoutMs: number) {
+    super(`"${label}" timed out after ${timeoutMs / 1000}s.`);
+    this.name = 'CommandTimeoutError';
+  }
+}
+
+/** A command was dropped before it completed, e.g. because the link went down. */
+export class CommandCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandCancelledError';
+  }
+}
+
+/**
+ * Whether trying again might help. The speaker rejecting a command deliberately
+ * will not change on a retry; a lost or garbled exchange might.
+ */
+function isRetryable(error: unknown) {
+  if (error instanceof CommandCancelledError) {
+    return false;
+  }
+  if (error instanceof ProtocolError) {
+    return error.code === 'MALFORMED_FRAME';
+  }
+  return true;
+}
+
+type Command = {
+  label: string;
+  run: () => Promise<unknown>;
+  options: CommandOptions;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  cancelled: boolean;
+};
+
+/**
+ * Runs commands over one link strictly one at a time, in the order they were
+ * enqueued, so their writes and reads never interleave. Each command gets a timeout
+ * and a retry policy, and everything still queued or running can be rejected at once
+ * when the link goes down.
+ */
+export class CommandQueue {
+  private queue: Command[] = [];
+  private active: Command | null = null;
+  // A timed-out try that is still writing and reading chunks; nothing runs until it settles.
+  private abandoned: Promise<void> | null = null;
+
+  /** Number of commands waiting or running. */
+  get size() {
+    return this.queue.length + (this.active ? 1 : 0);
+  }
+
+  enqueue<T>(label: string, run: () => Promise<T>, options: CommandOptions): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        label,
+        run,
+        options,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        cancelled: false,
+      });
+      this.next();
+    });
+  }
+
+  /** Rejects the running command and every queued one with `error`. */
+  rejectAll(error: CommandCancelledError) {
+    const commands = this.active ? [this.active, ...this.queue] : this.queue;
+    this.active = null;
+    this.queue = [];
+    commands.forEach((command) => {
+      command.cancelled = true;
+      command.reject(error);
+    });
+  }
+
+  private next() {
+    if (this.active || this.abandoned) return;
+    const command = this.queue.shift();
+    if (!command) return;
+
+    this.active = command;
+    this.execute(command)
+      .then(command.resolve, command.reject)
+      .finally(() => {
+        // rejectAll() may already have moved on from this command.
+        if (this.active === command) {
+          this.active = null;
+        }
+        this.next();
+      });
+  }
+
+  private async execute(command: Command) {
+    const { label, run, options } = command;
+    for (let attempt = 1; ; attempt++) {
+      if (this.abandoned) {
+        await this.abandoned;
+      }
+      // rejectAll() may have dropped the command while it waited; it must not reach the link.
+      if (command.cancelled) {
+        throw new CommandCancelledError(`"${label}" was cancelled.`);
+      }
+      const running = run();
+      try {
+        return await withTimeout(running, options.timeoutMs, label);
+      } catch (error) {
+        if (error instanceof CommandTimeoutError) {
+          this.abandon(running);
+        }
+        if (command.cancelled || attempt >= options.retry.attempts || !isRetryable(error)) {
+          throw error;
+        }
+        eventLog.warn('protocol', `"${label}" failed, retrying`, {
+          attempt,
+          attempts: options.retry.attempts,
+          ...errorDetails(error),
+        });
+        await new Promise((resolve) => setTimeout(resolve, options.retry.delayMs));
+        if (command.cancelled) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Holds back the retry and the next command until `running` settles, so their
+   * chunks do not interleave with the ones it is still writing and reading.
+   */
+  private abandon(running: Promise<unknown>) {
+    const settled = running.then(
+      () => {},
+      () => {}
+    );
+    this.abandoned = settled;
+    settled.then(() => {
+      if (this.abandoned === settled) {
+        this.abandoned = null;
+      }
+      this.next();
+    });
+  }
+}
+
+// The operation itself cannot be aborted and may still finish after the timeout; the
+// queue waits for it before running anything else on the link. The speaker tags every
+// response with its request id, so a late answer is rejected rather than mistaken for
+// the answer to a later command.
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string) {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new CommandTimeoutError(label, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,391 @@
+import {
+  SPEAKER_CONTROL_CHARACTERISTIC_UUID,
+  SPEAKER_EVENTS_CHARACTERISTIC_UUID,
+  SPEAKER_FIRMWARE_CHARACTERISTIC_UUID,
+  SPEAKER_SERVICE_UUID,
+} from '@/constants/Speaker';
+import { FaultInjector } from '@/peripheral/faults';
+import { MockSpeaker } from '@/peripheral/MockSpeaker';
+import { SpeakerGattServer } from '@/peripheral/SpeakerGattServer';
+import { encodeManufacturerData } from '@/services/speaker/advertisement';
+import { ATT_HEADER_SIZE, DEFAULT_MTU } from '@/services/speaker/framing';
+import {
+  CLIENT_CONFIGURATION_DESCRIPTOR_UUID,
+  encodeUtf8,
+  USER_DESCRIPTION_DESCRIPTOR_UUID,
+} from '@/services/speaker/gatt';
+import {
+  AdapterState,
+  ConnectedDevice,
+  ConnectOptions,
+  GattService,
+  ScannedDevice,
+  SpeakerTransport,
+} from '@/services/speaker/transport';
+
+/** Operations that can be made to fail once with `FakeTransport.failNext`. */
+export type FakeOperation = 'scan' | 'connect' | 'discover' | 'read' | 'write';
+
+/** A simulated speaker the fake transport can find and connect to. */
+export type FakePeripheral = {
+  id: string;
+  name: string | null;
+  rssi: number;
+  /** Largest MTU the peripheral accepts. */
+  maxMtu: number;
+  /** Whether the peripheral is advertising and in range. */
+  advertising: boolean;
+  speaker: MockSpeaker;
+  faults: FaultInjector;
+  gatt: SpeakerGattServer;
+};
+
+type FakeLink = {
+  discovered: boolean;
+  monitorListeners: Set<(error: Error | null, value: Uint8Array | null) => void>;
+};
+
+const ADVERTISING_INTERVAL_MS = 100;
+// Advertised signal strength varies by up to this much either way, as it does over the air.
+const RSSI_JITTER_DBM = 6;
+
+function jitter(rssi: number) {
+  return rssi + Math.round((Math.random() * 2 - 1) * RSSI_JITTER_DBM);
+}
+
+/** How long a fake speaker stays away while it reboots after a firmware update. */
+const REBOOT_DURATION_MS = 3000;
+
+/** Pairing code of fake speakers unless `addSpeaker` is given another. */
+export const FAKE_PAIRING_CODE = '123456';
+
+/**
+ * In-memory transport that simulates advertising, connections, MTU negotiation,
+ * disconnects and errors against `MockSpeaker` instances. It needs no radio, so the
+ * connection logic can run in tests, on simulators and in Expo Go.
+ */
+export class FakeTransport implements SpeakerTransport {
+  adapterState: AdapterState = 'PoweredOn';
+  permissionsGranted = true;
+  /** Delay applied to every asynchronous operation. */
+  latencyMs = 0;
+
+  private readonly peripherals = new Map<string, FakePeripheral>();
+  private readonly links = new Map<string, FakeLink>();
+  private readonly stateListeners = new Set<(state: AdapterState) => void>();
+  // Keyed by device id: listeners may be registered before the link exists, as with react-native-ble-plx.
+  private readonly disconnectListeners = new Map<string, Set<(error: Error | null) => void>>();
+  private readonly failures = new Map<FakeOperation, Error>();
+  private scanTimer: ReturnType<typeof setInterval> | null = null;
+
+  addSpeaker(
+    id: string,
+    name: string | null,
+    {
+      rssi = -60,
+      maxMtu = 185,
+      pairingCode = FAKE_PAIRING_CODE,
+      firmwareVersion,
+      serial,
+    }: { rssi?: number; maxMtu?: number; pairingCode?: string; firmwareVersion?: string; serial?: string } = {}
+  ): FakePeripheral {
+    const speaker = new MockSpeaker(name ?? id, { pairingCode, firmwareVersion, serial });
+    speaker.onReboot(() => this.simulateReboot(id));
+    const faults = new FaultInjector({
+      disconnect: () => this.simulateDisconnect(id, new Error('Peripheral disconnected')),
+      setState: (state) => speaker.updateState(state),
+    });
+    const peripheral = {
+      id,
+      name,
+      rssi,
+      maxMtu,
+      advertising: true,
+      speaker,
+      faults,
+      gatt: new SpeakerGattServer(speaker, faults),
+    };
+    this.peripherals.set(id, peripheral);
+    return peripheral;
+  }
+
+  getPeripheral(id: string) {
+    const peripheral = this.peripherals.get(id);
+    if (!peripheral) {
+      throw new Error(`Unknown fake peripheral ${id}`);
+    }
+    return peripheral;
+  }
+
+  isConnected(id: string) {
+    return this.links.has(id);
+  }
+
+  /** Makes the next call of `operation` reject with `error`. */
+  failNext(operation: FakeOperation, error: Error) {
+    this.failures.set(operation, error);
+  }
+
+  setAdapterState(state: AdapterState) {
+    this.adapterState = state;
+    if (state !== 'PoweredOn') {
+      this.stopScan();
+      [...this.links.keys()].forEach((id) => this.simulateDisconnect(id, new Error('Bluetooth is off')));
+    }
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+
+  /** Drops the link to `id` as if the peripheral went out of range or hung up. */
+  simulateDisconnect(id: string, error: Error | null = null) {
+    const link = this.links.get(id);
+    if (!link) return;
+    this.links.delete(id);
+    this.getPeripheral(id).gatt.reset();
+    link.monitorListeners.forEach((listener) => listener(new Error('Operation was cancelled'), null));
+    this.disconnectListeners.get(id)?.forEach((listener) => listener(error));
+  }
+
+  /** Drops the link to `id` and keeps the peripheral from advertising while it restarts. */
+  simulateReboot(id: string) {
+    const peripheral = this.getPeripheral(id);
+    peripheral.advertising = false;
+    this.simulateDisconnect(id, new Error('Peripheral rebooted'));
+    setTimeout(() => {
+      peripheral.advertising = true;
+    }, REBOOT_DURATION_MS);
+  }
+
+  onStateChange(listener: (state: AdapterState) => void) {
+    this.stateListeners.add(listener);
+    listener(this.adapterState);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  async checkPermissions() {
+    await this.tick();
+    return this.permissionsGranted;
+  }
+
+  async requestPermissions() {
+    await this.tick();
+    return this.permissionsGranted;
+  }
+
+  startScan(serviceUuids: string[], listener: (error: Error | null, device: ScannedDevice | null) => void) {
+    this.stopScan();
+    const failure = this.takeFailure('scan');
+    if (failure || this.adapterState !== 'PoweredOn') {
+      setTimeout(() => listener(failure ?? new Error('Bluetooth is not powered on'), null), this.latencyMs);
+      return;
+    }
+
+    const matchesFilter = serviceUuids.length === 0 || serviceUuids.includes(SPEAKER_SERVICE_UUID);
+    this.scanTimer = setInterval(() => {
+      this.peripherals.forEach(({ id, name, rssi, advertising, speaker }) => {
+        if (advertising && matchesFilter && !this.links.has(id)) {
+          listener(null, {
+            id,
+            name,
+            rssi: jitter(rssi),
+            manufacturerData: encodeManufacturerData(speaker.advertisement()),
+            serviceData: null,
+          });
+        }
+      });
+    }, ADVERTISING_INTERVAL_MS);
+  }
+
+  stopScan() {
+    if (this.scanTimer) {
+      clearInterval(this.scanTimer);
+      this.scanTimer = null;
+    }
+  }
+
+  async connect(deviceId: string, { requestMtu }: ConnectOptions): Promise<ConnectedDevice> {
+    await this.tick('connect');
+    const peripheral = this.peripherals.get(deviceId);
+    if (this.adapterState !== 'PoweredOn') {
+      throw new Error('Bluetooth is not powered on');
+    }
+    if (!peripheral || !peripheral.advertising) {
+      throw new Error(`Device ${deviceId} is not in range`);
+    }
+    if (this.links.has(deviceId)) {
+      throw new Error(`Device ${deviceId} is already connected`);
+    }
+
+    const mtu = Math.max(DEFAULT_MTU, Math.min(requestMtu, peripheral.maxMtu));
+    peripheral.gatt.mtu = mtu;
+    this.links.set(deviceId, { discovered: false, monitorListeners: new Set() });
+    peripheral.faults.startScript();
+    return { id: peripheral.id, name: peripheral.name, mtu };
+  }
+
+  async discover(deviceId: string) {
+    await this.tick('discover');
+    this.requireLink(deviceId, false).discovered = true;
+  }
+
+  async services(deviceId: string): Promise<GattService[]> {
+    await this.tick();
+    const link = this.requireLink(deviceId);
+    const subscribed = link.monitorListeners.size > 0;
+    return [
+      {
+        uuid: SPEAKER_SERVICE_UUID,
+        characteristics: [
+          {
+            uuid: SPEAKER_CONTROL_CHARACTERISTIC_UUID,
+            serviceUuid: SPEAKER_SERVICE_UUID,
+            properties: ['read', 'write'],
+            descriptors: [{ uuid: USER_DESCRIPTION_DESCRIPTOR_UUID, value: encodeUtf8('Control') }],
+          },
+          {
+            uuid: SPEAKER_EVENTS_CHARACTERISTIC_UUID,
+            serviceUuid: SPEAKER_SERVICE_UUID,
+            properties: ['notify'],
+            descriptors: [
+              { uuid: USER_DESCRIPTION_DESCRIPTOR_UUID, value: encodeUtf8('Events') },
+              { uuid: CLIENT_CONFIGURATION_DESCRIPTOR_UUID, value: Uint8Array.of(subscribed ? 1 : 0, 0) },
+            ],
+          },
+          {
+            uuid: SPEAKER_FIRMWARE_CHARACTERISTIC_UUID,
+            serviceUuid: SPEAKER_SERVICE_UUID,
+            properties: ['write'],
+            descriptors: [{ uuid: USER_DESCRIPTION_DESCRIPTOR_UUID, value: encodeUtf8('Firmware') }],
+          },
+        ],
+      },
+    ];
+  }
+
+  async disconnect(deviceId: string) {
+    await this.tick();
+    this.peripherals.get(deviceId)?.faults.stopScript();
+    this.simulateDisconnect(deviceId);
+  }
+
+  onDisconnected(deviceId: string, listener: (error: Error | null) => void) {
+    const listeners = this.disconnectListeners.get(deviceId) ?? new Set();
+    listeners.add(listener);
+    this.disconnectListeners.set(deviceId, listeners);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  async readRssi(deviceId: string) {
+    await this.tick();
+    this.requireLink(deviceId, false);
+    return jitter(this.getPeripheral(deviceId).rssi);
+  }
+
+  async read(deviceId: string, serviceUuid: string, characteristicUuid: string) {
+    await this.tick('read');
+    this.requireCharacteristic(deviceId, serviceUuid, characteristicUuid, [SPEAKER_CONTROL_CHARACTERISTIC_UUID]);
+    const chunk = this.getPeripheral(deviceId).gatt.readControl();
+    if (!chunk) {
+      throw new Error('Read failed: nothing to read');
+    }
+    return chunk;
+  }
+
+  async write(deviceId: string, serviceUuid: string, characteristicUuid: string, value: Uint8Array) {
+    await this.tick('write');
+    this.requireCharacteristic(deviceId, serviceUuid, characteristicUuid, [
+      SPEAKER_CONTROL_CHARACTERISTIC_UUID,
+      SPEAKER_FIRMWARE_CHARACTERISTIC_UUID,
+    ]);
+    const peripheral = this.getPeripheral(deviceId);
+    if (value.length > peripheral.gatt.mtu - ATT_HEADER_SIZE) {
+      throw new Error(`Write of ${value.length} bytes exceeds the MTU of ${peripheral.gatt.mtu}`);
+    }
+    if (characteristicUuid === SPEAKER_FIRMWARE_CHARACTERISTIC_UUID) {
+      peripheral.gatt.writeFirmware(value);
+    } else {
+      await peripheral.gatt.writeControl(value);
+    }
+  }
+
+  async writeWithoutResponse(deviceId: string, serviceUuid: string, characteristicUuid: string) {
+    await this.tick('write');
+    this.requireCharacteristic(deviceId, serviceUuid, characteristicUuid, [
+      SPEAKER_CONTROL_CHARACTERISTIC_UUID,
+      SPEAKER_FIRMWARE_CHARACTERISTIC_UUID,
+    ]);
+    throw new Error(`Characteristic ${characteristicUuid} does not support write without response`);
+  }
+
+  monitor(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    listener: (error: Error | null, value: Uint8Array | null) => void
+  ) {
+    try {
+      const link = this.requireCharacteristic(
+        deviceId,
+        serviceUuid,
+        characteristicUuid,
+        [SPEAKER_EVENTS_CHARACTERISTIC_UUID]
+      );
+      const { gatt } = this.getPeripheral(deviceId);
+      // The peripheral sees a single subscription however many monitors the app has.
+      if (link.monitorListeners.size === 0) {
+        gatt.subscribeEvents((chunk) => link.monitorListeners.forEach((monitor) => monitor(null, chunk)));
+      }
+      link.monitorListeners.add(listener);
+      return () => {
+        link.monitorListeners.delete(listener);
+        if (link.monitorListeners.size === 0 && this.links.get(deviceId) === link) {
+          gatt.unsubscribeEvents();
+        }
+      };
+    } catch (error) {
+      setTimeout(() => listener(error as Error, null), 0);
+      return () => {};
+    }
+  }
+
+  private requireLink(deviceId: string, discovered = true) {
+    const link = this.links.get(deviceId);
+    if (!link) {
+      throw new Error(`Device ${deviceId} is not connected`);
+    }
+    if (discovered && !link.discovered) {
+      throw new Error(`Services of ${deviceId} have not been discovered`);
+    }
+    return link;
+  }
+
+  private requireCharacteristic(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    expectedUuids: string[]
+  ) {
+    const link = this.requireLink(deviceId);
+    if (serviceUuid !== SPEAKER_SERVICE_UUID || !expectedUuids.includes(characteristicUuid)) {
+      throw new Error(`Characteristic ${characteristicUuid} not found`);
+    }
+    return link;
+  }
+
+  private takeFailure(operation: FakeOperation) {
+    const failure = this.failures.get(operation);
+    this.failures.delete(operation);
+    return failure;
+  }
+
+  private async tick(operation?: FakeOperation) {
+    await new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+    const failure = operation && this.takeFailure(operation);
+    if (failure) {
+      throw failure;
+    }
+  }
+}
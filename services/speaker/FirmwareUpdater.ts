@@ -0,0 +1,273 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+
+import { SPEAKER_FIRMWARE_REBOOT_TIMEOUT_MS } from '@/constants/Speaker';
+import { CommandCancelledError } from '@/services/speaker/CommandQueue';
+import { describeError, UserFacingError } from '@/services/speaker/errors';
+import { errorDetails, eventLog } from '@/services/speaker/eventLog';
+import { encodeFirmwareBlock, FIRMWARE_BLOCK_HEADER_SIZE } from '@/services/speaker/firmware';
+import { ATT_HEADER_SIZE } from '@/services/speaker/framing';
+import type { SpeakerConnection, SpeakerConnectionState } from '@/services/speaker/SpeakerConnection';
+
+export type FirmwareUpdatePhase =
+  | 'idle'
+  | 'starting'
+  | 'transferring'
+  /** The link dropped mid-transfer; the transfer resumes once the speaker is back. */
+  | 'waitingForSpeaker'
+  | 'installing'
+  | 'rebooting'
+  | 'verifying'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+export type FirmwareUpdateState = {
+  phase: FirmwareUpdatePhase;
+  /** Version being installed. */
+  targetVersion: string | null;
+  /** Bytes of the image the speaker holds, as far as the app knows. */
+  sentBytes: number;
+  totalBytes: number;
+  /** Transfer rate since the transfer last (re)started, once there is enough data. */
+  bytesPerSecond: number | null;
+  /** Estimated seconds until the transfer completes. */
+  etaSeconds: number | null;
+  message: string | null;
+};
+
+type Listener = () => void;
+
+const initialState: FirmwareUpdateState = {
+  phase: 'idle',
+  targetVersion: null,
+  sentBytes: 0,
+  totalBytes: 0,
+  bytesPerSecond: null,
+  etaSeconds: null,
+  message: null,
+};
+
+// The speaker is asked how much of the image it kept after every this many bytes.
+const CONFIRM_INTERVAL_BYTES = 16 * 1024;
+// How often an interrupted transfer is resumed before the update gives up.
+const MAX_RESUMES = 5;
+// How long to wait for the link to come back after it dropped mid-transfer.
+const RESUME_TIMEOUT_MS = 60000;
+// How long the speaker may take to go down after accepting the image.
+const REBOOT_START_TIMEOUT_MS = 15000;
+// Progress updates are throttled so a fast transfer does not re-render on every block.
+const PROGRESS_INTERVAL_MS = 250;
+// Below this, the transfer rate is too noisy to base an estimate on.
+const MIN_RATE_SAMPLE_MS = 1000;
+
+/**
+ * Updates the firmware of one speaker: sends the image to the firmware
+ * characteristic, confirming regularly how much the speaker kept, asks it to install
+ * the image and checks the version it reports after rebooting. A transfer that is
+ * interrupted by a dropped link resumes where the speaker left off once the
+ * connection reconnects.
+ *
+ * State is exposed like `SpeakerConnection`'s, as a snapshot plus a subscribe function.
+ */
+export class FirmwareUpdater {
+  private state = initialState;
+  private listeners = new Set<Listener>();
+  private running = false;
+  private cancelled = false;
+  private lastProgressAt = 0;
+  // Rejects the wait in progress, if any, when the update is cancelled.
+  private abortWait: ((error: Error) => void) | null = null;
+
+  constructor(private readonly connection: SpeakerConnection) {}
+
+  getState = () => this.state;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  get isRunning() {
+    return this.running;
+  }
+
+  /**
+   * Transfers `image` and installs it as `version`. Resolves once the speaker runs
+   * the new version; rejects when the update fails or is cancelled.
+   */
+  async update(image: Uint8Array, version: string) {
+    if (this.running) {
+      throw new UserFacingError('A firmware update is already running.');
+    }
+    this.running = true;
+    this.cancelled = false;
+    this.setState({ ...initialState, phase: 'starting', targetVersion: version, totalBytes: image.length });
+    const deviceId = this.connection.id;
+    eventLog.info('firmware', `Updating to ${version}`, { deviceId, bytes: image.length });
+
+    try {
+      await this.transfer(image, version, bytesToHex(sha256(image)));
+      await this.install(version);
+      this.setState({ phase: 'done', message: `The speaker now runs firmware ${version}.` });
+      eventLog.info('firmware', `Updated to ${version}`, { deviceId });
+    } catch (error) {
+      if (this.cancelled) {
+        eventLog.info('firmware', 'Update cancelled', { deviceId, sentBytes: this.state.sentBytes });
+      } else {
+        eventLog.error('firmware', 'Update failed', error, { deviceId, phase: this.state.phase });
+      }
+      this.setState({
+        phase: this.cancelled ? 'cancelled' : 'failed',
+        bytesPerSecond: null,
+        etaSeconds: null,
+        message: this.cancelled ? 'Update cancelled.' : describeError(error).message,
+      });
+      throw error;
+    } finally {
+      this.running = false;
+      this.abortWait = null;
+    }
+  }
+
+  /** Stops the update before the speaker installs it and discards what it received. */
+  cancel() {
+    const { phase } = this.state;
+    if (!this.running || this.cancelled || phase === 'installing' || phase === 'rebooting') {
+      return;
+    }
+    this.cancelled = true;
+    this.abortWait?.(new UserFacingError('Update cancelled.'));
+    if (this.connection.getState().security === 'secured') {
+      this.connection.request('firmwareAbort', {}).catch(() => {});
+    }
+  }
+
+  private async transfer(image: Uint8Array, version: string, hash: string) {
+    for (let resumes = 0; ; resumes++) {
+      try {
+        await this.waitFor((state) => state.security === 'secured', RESUME_TIMEOUT_MS, 'The speaker did not come back.');
+        await this.sendImage(image, version, hash);
+        return;
+      } catch (error) {
+        const linkLost = error instanceof CommandCancelledError || this.connection.getState().status !== 'connected';
+        if (this.cancelled || !linkLost || resumes >= MAX_RESUMES) {
+          throw error;
+        }
+        eventLog.warn('firmware', 'Transfer interrupted, waiting to resume', {
+          deviceId: this.connection.id,
+          sentBytes: this.state.sentBytes,
+          ...errorDetails(error),
+        });
+        this.setState({
+          phase: 'waitingForSpeaker',
+          bytesPerSecond: null,
+          etaSeconds: null,
+          message: 'Connection lost. The transfer resumes when the speaker reconnects.',
+        });
+      }
+    }
+  }
+
+  private async sendImage(image: Uint8Array, version: string, hash: string) {
+    const { received } = await this.connection.request('firmwareBegin', { version, size: image.length, sha256: hash });
+    const { device } = this.connection.getState();
+    const blockSize = device!.mtu - ATT_HEADER_SIZE - FIRMWARE_BLOCK_HEADER_SIZE;
+    const startedAt = Date.now();
+    let offset = received;
+    this.setState({ phase: 'transferring', sentBytes: offset, message: null });
+
+    while (offset < image.length) {
+      const confirmAt = Math.min(image.length, offset + CONFIRM_INTERVAL_BYTES);
+      while (offset < confirmAt) {
+        if (this.cancelled) {
+          throw new UserFacingError('Update cancelled.');
+        }
+        const block = encodeFirmwareBlock(image, offset, blockSize);
+        await this.connection.writeFirmwareBlock(block);
+        offset += block.length - FIRMWARE_BLOCK_HEADER_SIZE;
+        this.reportProgress(offset, received, startedAt);
+      }
+
+      // A write is only acknowledged by the radio; ask the speaker how much it kept.
+      const { transfer } = await this.connection.request('getFirmware', {});
+      if (!transfer || transfer.sha256 !== hash) {
+        throw new UserFacingError('The speaker dropped the firmware transfer.');
+      }
+      if (transfer.received !== offset) {
+        eventLog.warn('firmware', 'Speaker dropped blocks, resending', {
+          deviceId: this.connection.id,
+          sentBytes: offset,
+          receivedBytes: transfer.received,
+        });
+        offset = transfer.received;
+      }
+    }
+    this.reportProgress(offset, received, startedAt, true);
+  }
+
+  private async install(version: string) {
+    this.setState({ phase: 'installing', bytesPerSecond: null, etaSeconds: null, message: 'Verifying and installing...' });
+    await this.connection.request('firmwareInstall', {});
+
+    this.setState({ phase: 'rebooting', message: 'The speaker is restarting...' });
+    await this.waitFor((state) => state.status !== 'connected', REBOOT_START_TIMEOUT_MS, 'The speaker did not restart.');
+    await this.waitFor(
+      (state) => state.security === 'secured',
+      SPEAKER_FIRMWARE_REBOOT_TIMEOUT_MS,
+      'The speaker did not come back after restarting.'
+    );
+
+    this.setState({ phase: 'verifying', message: 'Checking the installed version...' });
+    const { version: running } = await this.connection.request('getFirmware', {});
+    if (running !== version) {
+      throw new UserFacingError(`The speaker still runs firmware ${running} after the update.`);
+    }
+  }
+
+  private reportProgress(sentBytes: number, startBytes: number, startedAt: number, force = false) {
+    const now = Date.now();
+    if (!force && now - this.lastProgressAt < PROGRESS_INTERVAL_MS) {
+      return;
+    }
+    this.lastProgressAt = now;
+
+    const elapsed = now - startedAt;
+    const bytesPerSecond = elapsed >= MIN_RATE_SAMPLE_MS ? ((sentBytes - startBytes) * 1000) / elapsed : null;
+    this.setState({
+      sentBytes,
+      bytesPerSecond,
+      etaSeconds: bytesPerSecond ? Math.ceil((this.state.totalBytes - sentBytes) / bytesPerSecond) : null,
+    });
+  }
+
+  /** Resolves once `predicate` holds for the connection state; rejects on timeout or cancel. */
+  private waitFor(predicate: (state: SpeakerConnectionState) => boolean, timeoutMs: number, message: string) {
+    if (predicate(this.connection.getState())) {
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve, reject) => {
+      const finish = (error: Error | null) => {
+        clearTimeout(timer);
+        unsubscribe();
+        this.abortWait = null;
+        if (error) reject(error);
+        else resolve();
+      };
+      const timer = setTimeout(() => finish(new UserFacingError(message)), timeoutMs);
+      const unsubscribe = this.connection.subscribe(() => {
+        if (predicate(this.connection.getState())) {
+          finish(null);
+        }
+      });
+      this.abortWait = finish;
+    });
+  }
+
+  private setState(patch: Partial<FirmwareUpdateState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,201 @@
+import {
+  SPEAKER_CONTROL_CHARACTERISTIC_UUID,
+  SPEAKER_EVENTS_CHARACTERISTIC_UUID,
+  SPEAKER_FIRMWARE_CHARACTERISTIC_UUID,
+} from '@/constants/Speaker';
+import { errorDetails, EventLog, LogInput } from '@/services/speaker/eventLog';
+import { ConnectOptions, ScannedDevice, SpeakerTransport } from '@/services/speaker/transport';
+
+const CHARACTERISTIC_NAMES: Record<string, string> = {
+  [SPEAKER_CONTROL_CHARACTERISTIC_UUID]: 'control',
+  [SPEAKER_EVENTS_CHARACTERISTIC_UUID]: 'events',
+  [SPEAKER_FIRMWARE_CHARACTERISTIC_UUID]: 'firmware',
+};
+
+function characteristicName(uuid: string) {
+  return CHARACTERISTIC_NAMES[uuid.toLowerCase()] ?? uuid;
+}
+
+/**
+ * Records every BLE operation of another transport in an event log: scans and the
+ * devices they find, connection attempts and the negotiated MTU, each read, write and
+ * notification with its size and duration, and failures with their error codes.
+ * Values themselves are not logged, as they may hold credentials. Firmware blocks and
+ * signal strength polls are only logged when they fail: a single update or locate
+ * session makes thousands of them.
+ */
+export class LoggingTransport implements SpeakerTransport {
+  private scanning = false;
+
+  constructor(
+    private readonly inner: SpeakerTransport,
+    private readonly log: EventLog
+  ) {}
+
+  onStateChange(listener: Parameters<SpeakerTransport['onStateChange']>[0]) {
+    return this.inner.onStateChange(listener);
+  }
+
+  checkPermissions() {
+    return this.inner.checkPermissions();
+  }
+
+  async requestPermissions() {
+    try {
+      const granted = await this.inner.requestPermissions();
+      this.log.log(granted ? 'info' : 'warn', 'adapter', granted ? 'Permissions granted' : 'Permissions denied');
+      return granted;
+    } catch (error) {
+      this.log.error('adapter', 'Permission request failed', error);
+      throw error;
+    }
+  }
+
+  get scanOpensChooser() {
+    return this.inner.scanOpensChooser;
+  }
+
+  startScan(serviceUuids: string[], listener: (error: Error | null, device: ScannedDevice | null) => void) {
+    // Devices advertise many times a second; only the first sighting per scan is logged.
+    const seen = new Set<string>();
+    this.scanning = true;
+    this.log.info('scan', 'Scan started', { services: serviceUuids.join(', ') });
+    this.inner.startScan(serviceUuids, (error, device) => {
+      if (error) {
+        this.log.error('scan', 'Scan failed', error);
+      } else if (device && !seen.has(device.id)) {
+        seen.add(device.id);
+        this.log.info('scan', `Found ${device.name || 'unnamed device'}`, { deviceId: device.id, rssi: device.rssi });
+      }
+      listener(error, device);
+    });
+  }
+
+  stopScan() {
+    if (this.scanning) {
+      this.scanning = false;
+      this.log.info('scan', 'Scan stopped');
+    }
+    this.inner.stopScan();
+  }
+
+  connect(deviceId: string, options: ConnectOptions) {
+    this.log.info('connection', 'Connecting', { deviceId, requestedMtu: options.requestMtu });
+    return this.timed(
+      'connection',
+      'Connect',
+      { deviceId },
+      () => this.inner.connect(deviceId, options),
+      'info',
+      (connected) => ({ mtu: connected.mtu })
+    );
+  }
+
+  discover(deviceId: string) {
+    return this.timed('gatt', 'Discover services', { deviceId }, () => this.inner.discover(deviceId));
+  }
+
+  services(deviceId: string) {
+    return this.timed('gatt', 'List services', { deviceId }, () => this.inner.services(deviceId), 'debug');
+  }
+
+  disconnect(deviceId: string) {
+    return this.timed('connection', 'Disconnect', { deviceId }, () => this.inner.disconnect(deviceId));
+  }
+
+  onDisconnected(deviceId: string, listener: (error: Error | null) => void) {
+    return this.inner.onDisconnected(deviceId, (error) => {
+      if (error) {
+        this.log.error('connection', 'Link lost', error, { deviceId });
+      } else {
+        this.log.info('connection', 'Disconnected', { deviceId });
+      }
+      listener(error);
+    });
+  }
+
+  readRssi(deviceId: string) {
+    return this.timed('gatt', 'Read RSSI', { deviceId }, () => this.inner.readRssi(deviceId), null);
+  }
+
+  read(deviceId: string, serviceUuid: string, characteristicUuid: string) {
+    return this.timed(
+      'gatt',
+      'Read',
+      { deviceId, characteristic: characteristicName(characteristicUuid) },
+      () => this.inner.read(deviceId, serviceUuid, characteristicUuid),
+      'debug',
+      (value) => ({ bytes: value.length })
+    );
+  }
+
+  write(deviceId: string, serviceUuid: string, characteristicUuid: string, value: Uint8Array) {
+    return this.timed(
+      'gatt',
+      'Write',
+      { deviceId, characteristic: characteristicName(characteristicUuid), bytes: value.length },
+      () => this.inner.write(deviceId, serviceUuid, characteristicUuid, value),
+      characteristicUuid.toLowerCase() === SPEAKER_FIRMWARE_CHARACTERISTIC_UUID ? null : 'debug'
+    );
+  }
+
+  writeWithoutResponse(deviceId: string, serviceUuid: string, characteristicUuid: string, value: Uint8Array) {
+    return this.timed(
+      'gatt',
+      'Write without response',
+      { deviceId, characteristic: characteristicName(characteristicUuid), bytes: value.length },
+      () => this.inner.writeWithoutResponse(deviceId, serviceUuid, characteristicUuid, value),
+      'debug'
+    );
+  }
+
+  monitor(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    listener: (error: Error | null, value: Uint8Array | null) => void
+  ) {
+    const details = { deviceId, characteristic: characteristicName(characteristicUuid) };
+    this.log.info('gatt', 'Subscribed', details);
+    const unsubscribe = this.inner.monitor(deviceId, serviceUuid, characteristicUuid, (error, value) => {
+      if (error) {
+        // Subscriptions end with an error whenever the link goes down, which is not a failure in itself.
+        this.log.warn('gatt', 'Notifications stopped', { ...details, ...errorDetails(error) });
+      } else {
+        this.log.debug('gatt', 'Notification', { ...details, bytes: value?.length ?? 0 });
+      }
+      listener(error, value);
+    });
+    return () => {
+      this.log.info('gatt', 'Unsubscribed', details);
+      unsubscribe();
+    };
+  }
+
+  /**
+   * Runs `run`, then logs its outcome and duration at `level`, or as an error
+   * when it fails; a `null` level logs failures only. `describe` adds details about
+   * the result.
+   */
+  private async timed<T>(
+    category: 'connection' | 'gatt',
+    operation: string,
+    details: LogInput,
+    run: () => Promise<T>,
+    level: 'debug' | 'info' | null = 'info',
+    describe?: (result: T) => LogInput
+  ) {
+    const startedAt = Date.now();
+    try {
+      const result = await run();
+      if (level) {
+        const durationMs = Date.now() - startedAt;
+        this.log.log(level, category, operation, { ...details, ...describe?.(result), durationMs });
+      }
+      return result;
+    } catch (error) {
+      this.log.error(category, `${operation} failed`, error, { ...details, durationMs: Date.now() - startedAt });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import {
+  SPEAKER_NAME_TARGET,
+  SPEAKER_SCAN_DEVICE_TTL_MS,
+  SPEAKER_SCAN_DURATION_MS,
+  SPEAKER_SERVICE_UUID,
+} from '@/constants/Speaker';
+import {
+  parseAdvertisementPayload,
+  parseManufacturerData,
+  SpeakerAdvertisement,
+} from '@/services/speaker/advertisement';
+import { smoothRssi } from '@/services/speaker/proximity';
+import { ScannedDevice, SpeakerTransport } from '@/services/speaker/transport';
+
+/**
+ * `timed` scans stop after `SPEAKER_SCAN_DURATION_MS`, or once the user picked a device
+ * where the transport's scan opens a chooser; `continuous` ones run until stopped.
+ */
+export type ScanMode = 'timed' | 'continuous';
+
+export type ScanStopReason = 'finished' | 'stopped' | 'failed';
+
+/** A speaker heard during the current scan. */
+export type DiscoveredSpeaker = {
+  id: string;
+  name: string | null;
+  /** Signal strength in dBm, smoothed over recent advertisements; `null` if none was reported. */
+  rssi: number | null;
+  /** Whether the advertised name is the one speakers ship with. */
+  nameMatches: boolean;
+  /** Serial number and setup state, for speakers that advertise them. */
+  advertisement: SpeakerAdvertisement | null;
+  firstSeenAt: number;
+  lastSeenAt: number;
+};
+
+export type ScanListener = {
+  /** Reports the speakers in range, best candidates first, whenever the list changed. */
+  onDevices(devices: DiscoveredSpeaker[]): void;
+  onStopped(reason: ScanStopReason, error: Error | null): void;
+};
+
+// Advertisements arrive many times a second; the list is published at most this often.
+const UPDATE_INTERVAL_MS = 500;
+
+export function matchesTargetName(name: string | null) {
+  return !!name && name.toLowerCase().startsWith(SPEAKER_NAME_TARGET.toLowerCase());
+}
+
+function parseAdvertisement({ manufacturerData, serviceData }: ScannedDevice) {
+  const fromManufacturer = manufacturerData && parseManufacturerData(manufacturerData);
+  if (fromManufacturer) {
+    return fromManufacturer;
+  }
+  const payload = Object.entries(serviceData ?? {}).find(
+    ([uuid]) => uuid.toLowerCase() === SPEAKER_SERVICE_UUID
+  )?.[1];
+  return payload ? parseAdvertisementPayload(payload) : null;
+}
+
+// Speakers with the expected name first, then the strongest signal, which is usually the closest speaker.
+function compareSpeakers(a: DiscoveredSpeaker, b: DiscoveredSpeaker) {
+  return (
+    Number(b.nameMatches) - Number(a.nameMatches) ||
+    (b.rssi ?? -Infinity) - (a.rssi ?? -Infinity) ||
+    a.firstSeenAt - b.firstSeenAt
+  );
+}
+
+/**
+ * Turns the stream of advertisements from a scan into a list of speakers in range.
+ * Each advertisement updates the speaker's smoothed signal strength and what it
+ * advertises; speakers that stop advertising drop out of the list after
+ * `SPEAKER_SCAN_DEVICE_TTL_MS`.
+ */
+export class ScanEngine {
+  private devices = new Map<string, DiscoveredSpeaker>();
+  private mode: ScanMode | null = null;
+  private changed = false;
+  private updateTimer: ReturnType<typeof setInterval> | null = null;
+  private stopTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly transport: SpeakerTransport,
+    private readonly listener: ScanListener
+  ) {}
+
+  get scanning() {
+    return this.mode !== null;
+  }
+
+  /** Starts a fresh scan; the list from the previous one is discarded. */
+  start(mode: ScanMode) {
+    if (this.mode) {
+      throw new Error('A scan is already running.');
+    }
+    this.mode = mode;
+    this.devices.clear();
+    this.changed = false;
+
+    this.transport.startScan([SPEAKER_SERVICE_UUID], (error, device) => {
+      if (error) {
+        this.finish('failed', error);
+      } else if (device && this.mode) {
+        this.record(device, Date.now());
+        if (this.mode === 'timed' && this.transport.scanOpensChooser) {
+          this.finish('finished', null);
+        }
+      }
+    });
+    this.updateTimer = setInterval(() => this.update(Date.now()), UPDATE_INTERVAL_MS);
+    // A chooser stays open until the user picks a device or dismisses it; stopping the
+    // scan earlier would drop the device they pick.
+    if (mode === 'timed' && !this.transport.scanOpensChooser) {
+      this.stopTimer = setTimeout(() => this.finish('finished', null), SPEAKER_SCAN_DURATION_MS);
+    }
+  }
+
+  stop() {
+    this.finish('stopped', null);
+  }
+
+  private record(device: ScannedDevice, now: number) {
+    const previous = this.devices.get(device.id);
+    const name = device.name ?? previous?.name ?? null;
+    const previousRssi = previous?.rssi ?? null;
+    const rssi = device.rssi === null ? previousRssi : smoothRssi(previousRssi, device.rssi);
+    this.devices.set(device.id, {
+      id: device.id,
+      name,
+      rssi,
+      nameMatches: matchesTargetName(name),
+      // Platforms do not include every field in every report.
+      advertisement: parseAdvertisement(device) ?? previous?.advertisement ?? null,
+      firstSeenAt: previous?.firstSeenAt ?? now,
+      lastSeenAt: now,
+    });
+    this.changed = true;
+  }
+
+  private update(now: number) {
+    this.devices.forEach((device, id) => {
+      if (now - device.lastSeenAt > SPEAKER_SCAN_DEVICE_TTL_MS) {
+        this.devices.delete(id);
+        this.changed = true;
+      }
+    });
+    if (this.changed) {
+      this.changed = false;
+      this.listener.onDevices(
+        [...this.devices.values()]
+          .map((device) => ({ ...device, rssi: device.rssi === null ? null : Math.round(device.rssi) }))
+          .sort(compareSpeakers)
+      );
+    }
+  }
+
+  private finish(reason: ScanStopReason, error: Error | null) {
+    if (!this.mode) return;
+    this.mode = null;
+    if (this.updateTimer) {
+      clearInterval(this.updateTimer);
+      this.updateTimer = null;
+    }
+    if (this.stopTimer) {
+      clearTimeout(this.stopTimer);
+      this.stopTimer = null;
+    }
+    this.transport.stopScan();
+    this.update(Date.now());
+    this.listener.onStopped(reason, error);
+  }
+}
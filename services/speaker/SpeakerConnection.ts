@@ -0,0 +1,861 @@
+import {
+  SPEAKER_COMMAND_RETRY_ATTEMPTS,
+  SPEAKER_COMMAND_RETRY_DELAY_MS,
+  SPEAKER_COMMAND_TIMEOUT_MS,
+  SPEAKER_CONTROL_CHARACTERISTIC_UUID,
+  SPEAKER_EVENTS_CHARACTERISTIC_UUID,
+  SPEAKER_FIRMWARE_CHARACTERISTIC_UUID,
+  SPEAKER_RECONNECT_BASE_DELAY_MS,
+  SPEAKER_RECONNECT_MAX_ATTEMPTS,
+  SPEAKER_RECONNECT_MAX_DELAY_MS,
+  SPEAKER_REQUESTED_MTU,
+  SPEAKER_SERVICE_UUID,
+} from '@/constants/Speaker';
+import { SpeakerAdvertisement } from '@/services/speaker/advertisement';
+import { CommandCancelledError, CommandOptions, CommandQueue, NO_RETRY } from '@/services/speaker/CommandQueue';
+import { describeError, SpeakerError, UserFacingError } from '@/services/speaker/errors';
+import { errorDetails, eventLog } from '@/services/speaker/eventLog';
+import { FirmwareUpdater } from '@/services/speaker/FirmwareUpdater';
+import {
+  ChunkAssembler,
+  DEFAULT_MTU,
+  MAX_CHUNKS_PER_MESSAGE,
+  nextMessageId,
+  splitIntoChunks,
+} from '@/services/speaker/framing';
+import { forgetPairingKey, getClientId, loadPairingKey, savePairingKey } from '@/services/speaker/pairingKeys';
+import {
+  createRequest,
+  decodeFrame,
+  encodeFrame,
+  EventFrame,
+  EventPayloads,
+  EventType,
+  Frame,
+  fromBase64,
+  isUnsealedRequestType,
+  nextRequestId,
+  ProtocolError,
+  RequestPayloads,
+  RequestType,
+  ResponseFrame,
+  ResponsePayloads,
+  SpeakerState,
+  StatePatch,
+  toBase64,
+  WifiStatus,
+} from '@/services/speaker/protocol';
+import { forgetRememberedDevice, saveRememberedDevice } from '@/services/speaker/rememberedDevices';
+import { DiscoveredSpeaker } from '@/services/speaker/ScanEngine';
+import {
+  createSessionNonce,
+  deriveSessionKey,
+  normalizePairingCode,
+  PAIRING_CODE_LENGTH,
+  PairingHandshake,
+  SecureSession,
+} from '@/services/speaker/secureChannel';
+import { SettingsPatch, SpeakerSettings, validateSettings } from '@/services/speaker/settings';
+import { ConnectedDevice, SpeakerTransport, Unsubscribe } from '@/services/speaker/transport';
+
+export type ConnectionStatus =
+  | 'idle'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'disconnecting';
+
+/**
+ * Whether commands can be sent: only handshake requests travel outside a secure
+ * session. `none` while disconnected.
+ */
+export type SecurityStatus = 'none' | 'securing' | 'pairingRequired' | 'pairing' | 'secured';
+
+export type ReconnectState = {
+  /** 1-based number of the current or upcoming attempt. */
+  attempt: number;
+  /** When the next attempt starts, or `null` while an attempt is in progress. */
+  nextAttemptAt: number | null;
+};
+
+export type SpeakerConnectionState = {
+  /** Name the speaker advertised or was remembered with. */
+  name: string | null;
+  status: ConnectionStatus;
+  security: SecurityStatus;
+  device: ConnectedDevice | null;
+  /** Signal strength when the speaker was last seen advertising. */
+  rssi: number | null;
+  lastSeenAt: number | null;
+  /** Serial number and setup state from the speaker's last advertisement. */
+  advertisement: SpeakerAdvertisement | null;
+  statusMessage: string;
+  /** Why the last connection attempt or request failed; cleared when one succeeds. */
+  error: SpeakerError | null;
+  /** Last settings snapshot reported by the speaker. */
+  settings: SpeakerSettings | null;
+  /** Live speaker state, kept current by `stateChanged` events. */
+  speakerState: SpeakerState | null;
+  /** Firmware the speaker last reported running; kept while disconnected. */
+  firmwareVersion: string | null;
+  /** Wi-Fi connection of the speaker, kept current by `wifiStatus` events. */
+  wifiStatus: WifiStatus | null;
+  /** Whether the speaker is persisted across launches and reconnected to automatically. */
+  remembered: boolean;
+  reconnect: ReconnectState | null;
+};
+
+type Listener = () => void;
+
+export function deviceLabel(device: { id: string; name: string | null }) {
+  return device.name || device.id;
+}
+
+const RETRY = { attempts: SPEAKER_COMMAND_RETRY_ATTEMPTS, delayMs: SPEAKER_COMMAND_RETRY_DELAY_MS };
+const DEFAULT_COMMAND_OPTIONS: CommandOptions = { timeoutMs: SPEAKER_COMMAND_TIMEOUT_MS, retry: RETRY };
+// Raw GATT access is for diagnostics; a failure should show as it happened.
+const RAW_COMMAND_OPTIONS: CommandOptions = { timeoutMs: SPEAKER_COMMAND_TIMEOUT_MS, retry: NO_RETRY };
+
+/** Timeout and retry policy per request type. Only requests that are safe to repeat are retried. */
+const REQUEST_OPTIONS: { [T in RequestType]: CommandOptions } = {
+  ping: DEFAULT_COMMAND_OPTIONS,
+  // The speaker allows one confirmation per pairing exchange, so neither step is repeated.
+  pairStart: { timeoutMs: SPEAKER_COMMAND_TIMEOUT_MS, retry: NO_RETRY },
+  pairConfirm: { timeoutMs: SPEAKER_COMMAND_TIMEOUT_MS, retry: NO_RETRY },
+  sessionStart: DEFAULT_COMMAND_OPTIONS,
+  getSettings: DEFAULT_COMMAND_OPTIONS,
+  // Settings carry absolute values, so applying them twice is harmless.
+  setSettings: DEFAULT_COMMAND_OPTIONS,
+  getState: DEFAULT_COMMAND_OPTIONS,
+  // Like settings, state changes carry absolute values.
+  updateState: DEFAULT_COMMAND_OPTIONS,
+  // The speaker scans for a few seconds before it answers.
+  wifiScan: { timeoutMs: 15000, retry: RETRY },
+  // Repeating a join would restart it on the speaker.
+  wifiConnect: { timeoutMs: SPEAKER_COMMAND_TIMEOUT_MS, retry: NO_RETRY },
+  getWifiStatus: DEFAULT_COMMAND_OPTIONS,
+  getFirmware: DEFAULT_COMMAND_OPTIONS,
+  // Resuming the same image is idempotent.
+  firmwareBegin: DEFAULT_COMMAND_OPTIONS,
+  // The speaker hashes the whole image before answering, then reboots.
+  firmwareInstall: { timeoutMs: 30000, retry: NO_RETRY },
+  firmwareAbort: DEFAULT_COMMAND_OPTIONS,
+  // Repeating only restarts the chime.
+  identify: DEFAULT_COMMAND_OPTIONS,
+};
+
+/** Delay before the reconnect attempt that follows `failures` failed attempts. */
+function reconnectDelay(failures: number) {
+  return Math.min(SPEAKER_RECONNECT_BASE_DELAY_MS * 2 ** (failures - 1), SPEAKER_RECONNECT_MAX_DELAY_MS);
+}
+
+/**
+ * Owns the BLE link to one speaker: connecting, the request/response exchange on
+ * the control characteristic and the speaker's events. `SpeakerRegistry` creates one
+ * per known speaker and shares the adapter, permissions and scanning between them.
+ *
+ * Connected speakers are remembered and reconnected to with exponential backoff when
+ * the link drops, when the app returns to the foreground and when Bluetooth is
+ * switched back on, until the user disconnects or forgets them. Temporary connections,
+ * made for a single command, are never remembered.
+ *
+ * After connecting it starts a secure session with the key from pairing, or waits for
+ * `pair()` when the app has not paired with the speaker yet. See `secureChannel.ts`.
+ *
+ * State is exposed as an immutable snapshot plus a subscribe function so it can be
+ * consumed from React through `useSyncExternalStore`.
+ */
+export class SpeakerConnection {
+  readonly id: string;
+  /** Firmware updates for this speaker; they outlive the screens that start them. */
+  readonly firmware: FirmwareUpdater;
+
+  private state: SpeakerConnectionState;
+  private listeners = new Set<Listener>();
+  private removeDisconnectListener: Unsubscribe | null = null;
+  private removeEventsMonitor: Unsubscribe | null = null;
+  private eventListeners = new Set<(event: EventFrame) => void>();
+  private readonly commands = new CommandQueue();
+  private session: SecureSession | null = null;
+  private lastRequestId = 0;
+  private lastMessageId = 0;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  // Bumped whenever reconnection is cancelled so in-flight attempts know to stop.
+  private reconnectGeneration = 0;
+  // Cleared when the user disconnects on purpose, set again when they connect.
+  private autoReconnect = true;
+  private readonly isAdapterReady: () => boolean;
+  private readonly temporary: boolean;
+
+  /** `isAdapterReady` tells whether Bluetooth is on and permitted, i.e. worth reconnecting. */
+  constructor(
+    private readonly transport: SpeakerTransport,
+    target: { id: string; name: string | null },
+    {
+      remembered = false,
+      temporary = false,
+      isAdapterReady,
+    }: { remembered?: boolean; temporary?: boolean; isAdapterReady: () => boolean }
+  ) {
+    this.id = target.id;
+    this.isAdapterReady = isAdapterReady;
+    this.temporary = temporary;
+    this.firmware = new FirmwareUpdater(this);
+    this.state = {
+      name: target.name,
+      status: 'idle',
+      security: 'none',
+      device: null,
+      rssi: null,
+      lastSeenAt: null,
+      advertisement: null,
+      statusMessage: remembered ? 'Not connected.' : '',
+      error: null,
+      settings: null,
+      speakerState: null,
+      firmwareVersion: null,
+      wifiStatus: null,
+      remembered,
+      reconnect: null,
+    };
+    this.onEvent('stateChanged', (speakerState) => {
+      const { settings } = this.state;
+      // The volume knob changes the volume setting too.
+      this.setState({ speakerState, settings: settings && { ...settings, volume: speakerState.volume } });
+    });
+    this.onEvent('wifiStatus', (wifiStatus) => this.setState({ wifiStatus }));
+  }
+
+  getState = () => this.state;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Registers a listener for events pushed by the speaker. Listeners stay registered
+   * across reconnects; the returned function removes the listener.
+   */
+  onEvent<T extends EventType>(type: T, listener: (payload: EventPayloads[T]) => void) {
+    const handler = (event: EventFrame) => {
+      if (event.type === type) {
+        listener(event.payload as EventPayloads[T]);
+      }
+    };
+    this.eventListeners.add(handler);
+    return () => {
+      this.eventListeners.delete(handler);
+    };
+  }
+
+  /** Records that the speaker was seen advertising during a scan. */
+  seen({ name, rssi, lastSeenAt, advertisement }: DiscoveredSpeaker) {
+    if (lastSeenAt === this.state.lastSeenAt) return;
+    this.setState({
+      name: name ?? this.state.name,
+      rssi,
+      lastSeenAt,
+      advertisement: advertisement ?? this.state.advertisement,
+    });
+  }
+
+  async connect() {
+    const { status } = this.state;
+    if (status === 'connecting' || status === 'connected' || status === 'disconnecting') {
+      eventLog.debug('connection', `Already ${status}`, { deviceId: this.id });
+      return;
+    }
+
+    this.autoReconnect = true;
+    this.cancelReconnect();
+    await this.establish();
+  }
+
+  /**
+   * Connects again without scanning. Remembered speakers are retried with backoff;
+   * a speaker whose first connection failed gets a single new attempt.
+   */
+  reconnect() {
+    if (!this.state.remembered) {
+      this.connect();
+      return;
+    }
+    this.autoReconnect = true;
+    this.reconnectIfRemembered();
+  }
+
+  /** Starts reconnecting if the speaker is remembered, idle and the adapter is usable. */
+  reconnectIfRemembered() {
+    const { remembered, status } = this.state;
+    if (!remembered || !this.autoReconnect || status !== 'idle' || !this.isAdapterReady()) {
+      return;
+    }
+    this.attemptReconnect(0);
+  }
+
+  /** Stops reconnecting to the speaker and drops it from storage. */
+  async forget() {
+    this.autoReconnect = false;
+    this.cancelReconnect();
+    this.setState({ remembered: false });
+    try {
+      await Promise.all([forgetRememberedDevice(this.id), forgetPairingKey(this.id)]);
+    } catch (error) {
+      eventLog.error('connection', 'Failed to forget the speaker', error, { deviceId: this.id });
+    }
+    if (this.state.device) {
+      await this.disconnect();
+    }
+  }
+
+  async disconnect() {
+    const { device, status } = this.state;
+    if (status === 'reconnecting') {
+      this.autoReconnect = false;
+      this.cancelReconnect();
+      this.setState({ statusMessage: 'Stopped reconnecting.' });
+      return;
+    }
+    if (!device) {
+      this.setState({ statusMessage: 'Not connected.' });
+      return;
+    }
+
+    this.autoReconnect = false;
+    this.setState({ status: 'disconnecting', statusMessage: `Disconnecting from ${deviceLabel(device)}...` });
+    try {
+      // The onDisconnected listener takes care of the state update.
+      await this.transport.disconnect(device.id);
+    } catch (error) {
+      this.clearSubscriptions();
+      this.setState({
+        status: 'idle',
+        device: null,
+        statusMessage: `Error disconnecting: ${describeError(error).message}`,
+      });
+    }
+  }
+
+  /**
+   * Queues a request behind any other commands on this link, then sends it on the
+   * control characteristic and reads back the response, both split into chunks that
+   * fit the negotiated MTU. Each try gets a fresh request id. Rejects with a
+   * `ProtocolError` when the speaker answers with an error or with a frame that does
+   * not match the request, with a `CommandTimeoutError` when the speaker does not
+   * answer in time and with a `CommandCancelledError` when the link goes down first.
+   * Requests other than the handshake ones are sealed and need a secure session.
+   */
+  async request<T extends RequestType>(type: T, payload: RequestPayloads[T]): Promise<ResponsePayloads[T]> {
+    this.requireDevice();
+    if (!this.session && !isUnsealedRequestType(type)) {
+      throw new UserFacingError(`Pair with ${this.label} first.`);
+    }
+    const startedAt = Date.now();
+    try {
+      const response = await this.commands.enqueue(type, () => this.exchange(type, payload), REQUEST_OPTIONS[type]);
+      eventLog.debug('protocol', `"${type}" completed`, { deviceId: this.id, durationMs: Date.now() - startedAt });
+      if (this.state.error) {
+        this.setState({ error: null });
+      }
+      return response;
+    } catch (error) {
+      eventLog.error('protocol', `"${type}" failed`, error, { deviceId: this.id, durationMs: Date.now() - startedAt });
+      const described = describeError(error);
+      this.setState({ error: described, statusMessage: described.message });
+      if (
+        error instanceof ProtocolError &&
+        error.code === 'UNAUTHENTICATED' &&
+        this.state.security === 'secured'
+      ) {
+        // The speaker lost the session, e.g. because it restarted; set up a new one.
+        this.startSession().catch(() => {});
+      }
+      throw error;
+    }
+  }
+
+  private async exchange<T extends RequestType>(type: T, payload: RequestPayloads[T]) {
+    const device = this.requireDevice();
+    const { session } = this;
+    this.lastRequestId = nextRequestId(this.lastRequestId);
+    const request = createRequest(this.lastRequestId, type, payload);
+
+    this.setState({ statusMessage: `Sending "${type}" request...` });
+    this.lastMessageId = nextMessageId(this.lastMessageId);
+    const frame = session ? session.seal(request) : request;
+    const chunks = splitIntoChunks(this.lastMessageId, encodeFrame(frame), device.mtu);
+    for (const chunk of chunks) {
+      await this.transport.write(device.id, SPEAKER_SERVICE_UUID, SPEAKER_CONTROL_CHARACTERISTIC_UUID, chunk);
+    }
+
+    const response = this.openResponse(decodeFrame(await this.readMessage(device)), session);
+    // Requests the speaker could not read at all are answered with id 0.
+    if (!response.ok && (response.id === request.id || response.id === 0)) {
+      throw new ProtocolError(response.error.code, response.error.message, response.id);
+    }
+    if (response.id !== request.id || !response.ok) {
+      throw new ProtocolError('MALFORMED_FRAME', `Speaker did not answer request ${request.id}.`);
+    }
+
+    this.setState({ statusMessage: `"${type}" completed.` });
+    return response.payload as ResponsePayloads[T];
+  }
+
+  /**
+   * Unwraps a response read from the control characteristic. Within a session only
+   * error responses may arrive unsealed: the speaker sends them when it could not open
+   * a request, and they carry nothing but the error.
+   */
+  private openResponse(frame: Frame, session: SecureSession | null): ResponseFrame {
+    let response = frame;
+    if (frame.kind === 'sealed') {
+      if (!session) {
+        throw new ProtocolError('UNAUTHENTICATED', 'Sealed response outside a secure session.');
+      }
+      response = session.open(frame);
+    } else if (session && frame.kind === 'response' && frame.ok) {
+      throw new ProtocolError('UNAUTHENTICATED', 'The speaker answered outside the secure session.');
+    }
+    if (response.kind !== 'response') {
+      throw new ProtocolError('MALFORMED_FRAME', `Expected a response, got a ${response.kind} frame.`);
+    }
+    return response;
+  }
+
+  /**
+   * Pairs with the speaker using the code it shows, then starts a secure session.
+   * Throws when the code is malformed or the speaker does not accept it.
+   */
+  async pair(code: string) {
+    const pairingCode = normalizePairingCode(code);
+    if (!pairingCode) {
+      throw new UserFacingError(`Enter the ${PAIRING_CODE_LENGTH}-digit code shown on the speaker.`);
+    }
+
+    this.setState({ security: 'pairing', statusMessage: `Pairing with ${this.label}...` });
+    try {
+      const clientId = await getClientId();
+      const handshake = new PairingHandshake('app', pairingCode, clientId);
+      const { share } = await this.request('pairStart', { clientId, share: toBase64(handshake.share) });
+      handshake.receive(fromBase64(share));
+      const { mac } = await this.request('pairConfirm', { clientId, mac: toBase64(handshake.confirmation()) });
+      if (!handshake.verify(fromBase64(mac))) {
+        throw new ProtocolError('UNAUTHENTICATED', 'The speaker could not prove it knows the code.');
+      }
+      await savePairingKey(this.id, handshake.pairingKey);
+    } catch (error) {
+      eventLog.error('security', 'Pairing failed', error, { deviceId: this.id });
+      if (this.state.device) {
+        this.setState({ security: 'pairingRequired' });
+      }
+      throw error;
+    }
+
+    if (await this.startSession()) {
+      this.loadStatus().catch(() => {});
+    }
+  }
+
+  async refreshState() {
+    const speakerState = await this.request('getState', {});
+    this.setState({ speakerState });
+    return speakerState;
+  }
+
+  /** Changes volume, mute or playback the way the speaker's own buttons would. */
+  async updateSpeakerState(changes: StatePatch) {
+    const speakerState = await this.request('updateState', changes);
+    const { settings } = this.state;
+    this.setState({ speakerState, settings: settings && { ...settings, volume: speakerState.volume } });
+    return speakerState;
+  }
+
+  async refreshFirmwareVersion() {
+    const { version } = await this.request('getFirmware', {});
+    this.setState({ firmwareVersion: version });
+    return version;
+  }
+
+  async refreshWifiStatus() {
+    const wifiStatus = await this.request('getWifiStatus', {});
+    this.setState({ wifiStatus });
+    return wifiStatus;
+  }
+
+  async loadSettings() {
+    const settings = await this.request('getSettings', {});
+    this.setState({ settings });
+    return settings;
+  }
+
+  /** Writes `changes` to the speaker; throws without sending anything if a value is invalid. */
+  async updateSettings(changes: SettingsPatch) {
+    const errors = Object.values(validateSettings(changes));
+    if (errors.length > 0) {
+      throw new UserFacingError(errors.join(' '));
+    }
+    const settings = await this.request('setSettings', changes);
+    this.setState({ settings });
+    return settings;
+  }
+
+  /**
+   * Writes one encoded block to the firmware characteristic. Retrying is safe: the
+   * speaker drops a block that does not continue the image.
+   */
+  writeFirmwareBlock(block: Uint8Array) {
+    const { id } = this.requireDevice();
+    if (!this.session) {
+      throw new UserFacingError(`Pair with ${this.label} first.`);
+    }
+    return this.commands.enqueue(
+      'firmwareBlock',
+      () => this.transport.write(id, SPEAKER_SERVICE_UUID, SPEAKER_FIRMWARE_CHARACTERISTIC_UUID, block),
+      DEFAULT_COMMAND_OPTIONS
+    );
+  }
+
+  /**
+   * Raw GATT access for diagnostics, bypassing the protocol. Writing to the control
+   * characteristic this way can confuse an exchange that is in progress.
+   */
+  listServices() {
+    const { id } = this.requireDevice();
+    return this.commands.enqueue('listServices', () => this.transport.services(id), RAW_COMMAND_OPTIONS);
+  }
+
+  /** Reads the signal strength of the link, in dBm. */
+  readRssi() {
+    const { id } = this.requireDevice();
+    return this.commands.enqueue('readRssi', () => this.transport.readRssi(id), RAW_COMMAND_OPTIONS);
+  }
+
+  readCharacteristic(serviceUuid: string, characteristicUuid: string) {
+    const { id } = this.requireDevice();
+    return this.commands.enqueue(
+      'read',
+      () => this.transport.read(id, serviceUuid, characteristicUuid),
+      RAW_COMMAND_OPTIONS
+    );
+  }
+
+  writeCharacteristic(serviceUuid: string, characteristicUuid: string, value: Uint8Array, withResponse = true) {
+    const { id } = this.requireDevice();
+    return this.commands.enqueue(
+      'write',
+      () =>
+        withResponse
+          ? this.transport.write(id, serviceUuid, characteristicUuid, value)
+          : this.transport.writeWithoutResponse(id, serviceUuid, characteristicUuid, value),
+      RAW_COMMAND_OPTIONS
+    );
+  }
+
+  monitorCharacteristic(
+    serviceUuid: string,
+    characteristicUuid: string,
+    listener: (error: Error | null, value: Uint8Array | null) => void
+  ) {
+    return this.transport.monitor(this.requireDevice().id, serviceUuid, characteristicUuid, listener);
+  }
+
+  /** Drops the link after the adapter was switched off or lost its permissions. */
+  adapterUnavailable() {
+    const { device } = this.state;
+    this.cancelReconnect();
+    if (device) {
+      // Best effort: the link is gone either way once the adapter is off.
+      this.transport.disconnect(device.id).catch(() => {});
+    }
+    this.clearSubscriptions();
+    this.setState({
+      status: 'idle',
+      security: 'none',
+      device: null,
+      settings: null,
+      speakerState: null,
+      statusMessage: 'Bluetooth is unavailable.',
+    });
+  }
+
+  /** Stops reconnecting and releases subscriptions; the connection is unusable afterwards. */
+  dispose() {
+    this.firmware.cancel();
+    this.autoReconnect = false;
+    this.cancelReconnect();
+    this.clearSubscriptions();
+    this.listeners.clear();
+    this.eventListeners.clear();
+  }
+
+  private get label() {
+    return deviceLabel({ id: this.id, name: this.state.name });
+  }
+
+  /**
+   * Connects, discovers services, subscribes to events and starts a secure session.
+   * Resolves to whether the speaker ended up connected, paired or not.
+   */
+  private async establish() {
+    this.clearSubscriptions();
+    this.setState({ status: 'connecting', statusMessage: `Connecting to ${this.label}...` });
+
+    let linked = false;
+    try {
+      this.removeDisconnectListener = this.transport.onDisconnected(this.id, (error) => {
+        this.handleDisconnected(error);
+      });
+
+      const connected = await this.transport.connect(this.id, { requestMtu: SPEAKER_REQUESTED_MTU });
+      linked = true;
+      this.setState({ statusMessage: `Connected to ${deviceLabel(connected)}. Discovering services...` });
+
+      await this.transport.discover(connected.id);
+      const device = { ...connected, mtu: connected.mtu || DEFAULT_MTU };
+      this.setState({
+        status: 'connected',
+        device,
+        name: device.name ?? this.state.name,
+        remembered: !this.temporary,
+        reconnect: null,
+        error: null,
+        statusMessage: `Ready to interact with ${deviceLabel(device)}.`,
+      });
+      if (!this.temporary) {
+        saveRememberedDevice({ id: device.id, name: this.state.name }).catch((e) =>
+          eventLog.error('connection', 'Failed to remember the speaker', e, { deviceId: this.id })
+        );
+      }
+
+      this.monitorEvents(device);
+      // Failures are reported through statusMessage; events will fill the state in later.
+      this.startSession()
+        .then(async (secured) => {
+          if (secured) await this.loadStatus();
+        })
+        .catch(() => {});
+      return true;
+    } catch (error) {
+      eventLog.error('connection', 'Connection attempt failed', error, { deviceId: this.id });
+      const described = describeError(error);
+      this.clearSubscriptions();
+      if (linked) {
+        // Otherwise the OS keeps the link open and the next attempt fails as already connected.
+        this.transport.disconnect(this.id).catch(() => {});
+      }
+      this.setState({
+        status: 'idle',
+        security: 'none',
+        device: null,
+        error: described,
+        statusMessage: `Connection failed: ${described.message}`,
+      });
+      return false;
+    }
+  }
+
+  private handleDisconnected(error: Error | null) {
+    this.clearSubscriptions();
+    // Drops during connection setup are handled by establish() itself.
+    const dropped = this.state.status === 'connected';
+    const described = error && describeError(error);
+    this.setState({
+      status: 'idle',
+      security: 'none',
+      device: null,
+      settings: null,
+      speakerState: null,
+      wifiStatus: null,
+      error: described,
+      statusMessage: `Disconnected from ${this.label}`,
+    });
+    if (dropped && (!described || described.retryable)) {
+      this.reconnectIfRemembered();
+    }
+  }
+
+  /**
+   * Starts a secure session with the stored pairing key, or asks for pairing when
+   * there is none or the speaker no longer accepts it. Resolves to whether the
+   * session is up.
+   */
+  private async startSession() {
+    this.session = null;
+    const pairingKey = await loadPairingKey(this.id);
+    if (!pairingKey) {
+      this.setState({ security: 'pairingRequired', statusMessage: `Enter the code shown on ${this.label} to pair.` });
+      return false;
+    }
+
+    this.setState({ security: 'securing', statusMessage: 'Starting a secure session...' });
+    try {
+      const clientId = await getClientId();
+      const appNonce = createSessionNonce();
+      const { nonce } = await this.request('sessionStart', { clientId, nonce: toBase64(appNonce) });
+      this.session = new SecureSession(deriveSessionKey(pairingKey, appNonce, fromBase64(nonce)), 'app');
+      // The first sealed exchange proves that both ends hold the same pairing key.
+      await this.request('ping', {});
+      this.setState({ security: 'secured', statusMessage: `Ready to interact with ${this.label}.` });
+      return true;
+    } catch (error) {
+      this.session = null;
+      if (!this.state.device) {
+        return false;
+      }
+      eventLog.error('security', 'Secure session failed', error, { deviceId: this.id });
+      if (error instanceof ProtocolError && error.code === 'UNAUTHENTICATED') {
+        // The speaker no longer knows this app, e.g. after a factory reset.
+        await forgetPairingKey(this.id).catch((e) =>
+          eventLog.error('security', 'Failed to forget the pairing key', e, { deviceId: this.id })
+        );
+        this.setState({ security: 'pairingRequired', statusMessage: `Pair with ${this.label} again.` });
+      } else {
+        this.setState({ security: 'none' });
+      }
+      return false;
+    }
+  }
+
+  /** Fetches what the dashboard shows once a session is up. */
+  private async loadStatus() {
+    await this.refreshState();
+    await this.refreshFirmwareVersion();
+    await this.refreshWifiStatus();
+  }
+
+  private async attemptReconnect(failures: number) {
+    const generation = this.reconnectGeneration;
+    this.reconnectTimeout = null;
+    this.setState({ reconnect: { attempt: failures + 1, nextAttemptAt: null } });
+
+    const connected = await this.establish();
+    if (connected || generation !== this.reconnectGeneration) {
+      return;
+    }
+    if (this.state.error?.retryable === false) {
+      // Trying again will not help until the user does something, e.g. grants a permission.
+      this.setState({ reconnect: null });
+      return;
+    }
+    this.scheduleReconnect(failures + 1);
+  }
+
+  private scheduleReconnect(failures: number) {
+    if (failures >= SPEAKER_RECONNECT_MAX_ATTEMPTS) {
+      this.setState({
+        status: 'idle',
+        reconnect: null,
+        statusMessage: `Could not reach ${this.label}. Scan to try again.`,
+      });
+      return;
+    }
+
+    const delay = reconnectDelay(failures);
+    this.setState({
+      status: 'reconnecting',
+      reconnect: { attempt: failures + 1, nextAttemptAt: Date.now() + delay },
+      statusMessage: `Reconnecting to ${this.label} in ${Math.round(delay / 1000)}s...`,
+    });
+    this.reconnectTimeout = setTimeout(() => this.attemptReconnect(failures), delay);
+  }
+
+  private cancelReconnect() {
+    this.reconnectGeneration++;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    const { reconnect, status } = this.state;
+    if (reconnect && status === 'connecting') {
+      // Abort the pending connectToDevice call; establish() then reports the failure.
+      this.transport.disconnect(this.id).catch(() => {});
+    }
+    this.setState({ reconnect: null, status: status === 'reconnecting' ? 'idle' : status });
+  }
+
+  /**
+   * Subscribes to the events characteristic. The subscription is removed together
+   * with the disconnect listener when the link goes away.
+   */
+  private monitorEvents(device: ConnectedDevice) {
+    const assembler = new ChunkAssembler();
+    this.removeEventsMonitor = this.transport.monitor(
+      device.id,
+      SPEAKER_SERVICE_UUID,
+      SPEAKER_EVENTS_CHARACTERISTIC_UUID,
+      (error, value) => {
+        if (error) {
+          // Transports report a cancelled monitor as an error when the link drops.
+          if (this.state.status === 'connected') {
+            eventLog.error('gatt', 'Event subscription failed', error, { deviceId: this.id });
+          }
+          return;
+        }
+        try {
+          const message = assembler.push(value ?? new Uint8Array());
+          if (!message) return;
+          const sealed = decodeFrame(message);
+          if (sealed.kind !== 'sealed' || !this.session) {
+            throw new ProtocolError('UNAUTHENTICATED', 'Events must arrive sealed within a secure session.');
+          }
+          const frame = this.session.open(sealed);
+          if (frame.kind !== 'event') {
+            throw new ProtocolError('MALFORMED_FRAME', `Unexpected ${frame.kind} frame on the events characteristic.`);
+          }
+          this.eventListeners.forEach((listener) => listener(frame));
+        } catch (e) {
+          eventLog.warn('protocol', 'Dropped speaker event', { deviceId: this.id, ...errorDetails(e) });
+        }
+      }
+    );
+  }
+
+  /** Reads chunks from the control characteristic until a whole message has arrived. */
+  private async readMessage(device: ConnectedDevice) {
+    const assembler = new ChunkAssembler();
+    for (let read = 0; read < MAX_CHUNKS_PER_MESSAGE; read++) {
+      const chunk = await this.transport.read(device.id, SPEAKER_SERVICE_UUID, SPEAKER_CONTROL_CHARACTERISTIC_UUID);
+      const message = assembler.push(chunk);
+      if (message) {
+        return message;
+      }
+    }
+    throw new ProtocolError('MALFORMED_FRAME', 'Response never completed.');
+  }
+
+  private requireDevice() {
+    const { device, status } = this.state;
+    if (!device || status !== 'connected') {
+      throw new UserFacingError('No device connected.');
+    }
+    return device;
+  }
+
+  /** Tears down everything tied to the current link, including commands still waiting on it. */
+  private clearSubscriptions() {
+    this.removeDisconnectListener?.();
+    this.removeDisconnectListener = null;
+    this.removeEventsMonitor?.();
+    this.removeEventsMonitor = null;
+    this.session = null;
+    if (this.commands.size > 0) {
+      this.commands.rejectAll(new CommandCancelledError(`The connection to ${this.label} was closed.`));
+    }
+  }
+
+  private setState(patch: Partial<SpeakerConnectionState>) {
+    const previous = this.state;
+    this.state = { ...previous, ...patch };
+    const { status, security, statusMessage } = this.state;
+    if (status !== previous.status) {
+      eventLog.info('connection', `Status ${previous.status} -> ${status}`, { deviceId: this.id, statusMessage });
+    }
+    if (security !== previous.security) {
+      eventLog.info('security', `Security ${previous.security} -> ${security}`, { deviceId: this.id });
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,108 @@
+import { AppState } from 'react-native';
+
+import { FirmwareUpdatePhase } from '@/services/speaker/FirmwareUpdater';
+import { SpeakerNotification } from '@/services/speaker/notifications';
+import { AlarmEvent } from '@/services/speaker/protocol';
+import { deviceLabel, SpeakerConnection } from '@/services/speaker/SpeakerConnection';
+import { SpeakerRegistry } from '@/services/speaker/SpeakerRegistry';
+
+// The speaker reboots during these phases; losing the link then is expected.
+const UPDATE_PHASES: readonly FirmwareUpdatePhase[] = ['installing', 'rebooting', 'verifying', 'waitingForSpeaker'];
+
+function alarmTitle({ kind, label }: AlarmEvent) {
+  const what = kind === 'alarm' ? 'Alarm' : 'Timer';
+  return label ? `${what}: ${label}` : what;
+}
+
+/**
+ * Turns what happens to the saved speakers into local notifications: a connected
+ * speaker going offline, a firmware update finishing, and alarms and timers going off.
+ * Offline and firmware news is only posted while the app is in the background, where
+ * the screens that show it are out of sight; alarms always are.
+ */
+export class SpeakerNotifier {
+  constructor(
+    private readonly registry: SpeakerRegistry,
+    private readonly notify: (notification: SpeakerNotification) => void
+  ) {}
+
+  /** Starts watching the registry's speakers. Returns a function that stops watching. */
+  start() {
+    const watched = new Map<string, () => void>();
+    const sync = () => {
+      const { speakerIds } = this.registry.getState();
+      for (const id of speakerIds) {
+        const connection = this.registry.getConnection(id);
+        if (connection && !watched.has(id)) {
+          watched.set(id, this.watch(connection));
+        }
+      }
+      for (const [id, stop] of watched) {
+        if (!speakerIds.includes(id)) {
+          stop();
+          watched.delete(id);
+        }
+      }
+    };
+
+    sync();
+    const unsubscribe = this.registry.subscribe(sync);
+    return () => {
+      unsubscribe();
+      watched.forEach((stop) => stop());
+      watched.clear();
+    };
+  }
+
+  private watch(connection: SpeakerConnection) {
+    const speakerId = connection.id;
+    const label = () => deviceLabel({ id: speakerId, name: connection.getState().name });
+
+    let previousStatus = connection.getState().status;
+    const unsubscribeState = connection.subscribe(() => {
+      const { status } = connection.getState();
+      const wasConnected = previousStatus === 'connected';
+      previousStatus = status;
+      // Disconnecting on purpose goes through 'disconnecting' first.
+      if (!wasConnected || status === 'connected' || status === 'disconnecting') return;
+      if (UPDATE_PHASES.includes(connection.firmware.getState().phase)) return;
+      // Turning Bluetooth off disconnects everything; that is no news to the user.
+      if (this.registry.getState().bluetoothState !== 'PoweredOn') return;
+      this.notifyInBackground({
+        speakerId,
+        title: `${label()} went offline`,
+        body: 'It is out of range or has lost power.',
+      });
+    });
+
+    let previousPhase = connection.firmware.getState().phase;
+    const unsubscribeFirmware = connection.firmware.subscribe(() => {
+      const { phase, message } = connection.firmware.getState();
+      if (phase === previousPhase) return;
+      previousPhase = phase;
+      if (phase === 'done' || phase === 'failed') {
+        this.notifyInBackground({
+          speakerId,
+          title: phase === 'done' ? `${label()} is up to date` : `${label()} could not be updated`,
+          body: message ?? '',
+        });
+      }
+    });
+
+    const removeAlarmListener = connection.onEvent('alarm', (alarm) => {
+      this.notify({ speakerId, title: alarmTitle(alarm), body: `On ${label()}` });
+    });
+
+    return () => {
+      unsubscribeState();
+      unsubscribeFirmware();
+      removeAlarmListener();
+    };
+  }
+
+  private notifyInBackground(notification: SpeakerNotification) {
+    if (AppState.currentState !== 'active') {
+      this.notify(notification);
+    }
+  }
+}
@@ -0,0 +1,369 @@
+import { AppState } from 'react-native';
+
+import { SPEAKER_NAME_TARGET } from '@/constants/Speaker';
+import { describeError, SpeakerError, speakerError, UserFacingError } from '@/services/speaker/errors';
+import { eventLog } from '@/services/speaker/eventLog';
+import { loadRememberedDevices } from '@/services/speaker/rememberedDevices';
+import { SettingsPatch } from '@/services/speaker/settings';
+import { DiscoveredSpeaker, ScanEngine, ScanMode, ScanStopReason } from '@/services/speaker/ScanEngine';
+import { deviceLabel, SpeakerConnection } from '@/services/speaker/SpeakerConnection';
+import { AdapterState, SpeakerTransport } from '@/services/speaker/transport';
+
+export type SpeakerRegistryState = {
+  bluetoothState: AdapterState | null;
+  /** `null` until permissions have been requested for the current adapter session. */
+  permissionsGranted: boolean | null;
+  /** Mode of the running scan, or `null` when not scanning. */
+  scanMode: ScanMode | null;
+  scanning: boolean;
+  /**
+   * Speakers in range during the current or last scan that are not in the registry yet,
+   * best candidates first.
+   */
+  foundDevices: DiscoveredSpeaker[];
+  /** Ids of the speakers in the registry, in the order they were added. */
+  speakerIds: string[];
+  /** Ids of the speakers that are currently connected. */
+  connectedIds: string[];
+  /** Speaker the UI is currently showing and sending commands to. */
+  selectedId: string | null;
+  statusMessage: string;
+  /** Why Bluetooth cannot be used or the last scan failed, if it did. */
+  error: SpeakerError | null;
+};
+
+/** Outcome of a command sent to several speakers at once. */
+export type GroupResult = {
+  succeeded: string[];
+  failed: { id: string; error: Error }[];
+};
+
+type Listener = () => void;
+
+const ADAPTER_ERRORS: Partial<Record<AdapterState, SpeakerError>> = {
+  PoweredOff: speakerError('bluetoothOff'),
+  Unauthorized: speakerError('permissionDenied'),
+  Unsupported: speakerError('bluetoothUnsupported'),
+};
+
+const initialState: SpeakerRegistryState = {
+  bluetoothState: null,
+  permissionsGranted: null,
+  scanMode: null,
+  scanning: false,
+  foundDevices: [],
+  speakerIds: [],
+  connectedIds: [],
+  selectedId: null,
+  statusMessage: 'Initializing Bluetooth...',
+  error: null,
+};
+
+/**
+ * Keeps several speaker connections open at once. Owns what they share — the
+ * adapter state, permissions and scanning — and a `SpeakerConnection` per speaker
+ * the user has connected to or remembered.
+ *
+ * State is exposed the same way as `SpeakerConnection`'s, through an immutable
+ * snapshot and a subscribe function.
+ */
+export class SpeakerRegistry {
+  private state = initialState;
+  private listeners = new Set<Listener>();
+  private connections = new Map<string, SpeakerConnection>();
+  private readonly scanner: ScanEngine;
+
+  constructor(private readonly transport: SpeakerTransport) {
+    this.scanner = new ScanEngine(transport, {
+      onDevices: (devices) => this.handleScanResults(devices),
+      onStopped: (reason, error) => this.handleScanStopped(reason, error),
+    });
+  }
+
+  getState = () => this.state;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getConnection(id: string) {
+    return this.connections.get(id) ?? null;
+  }
+
+  /**
+   * Prompts for the permissions BLE needs. Nothing prompts on its own, so the user
+   * can be told why the app asks first; see the onboarding screen.
+   */
+  requestPermissions() {
+    return this.updatePermissions(() => this.transport.requestPermissions());
+  }
+
+  /** Checks the permissions again, e.g. after the user changed them elsewhere. */
+  refreshPermissions() {
+    return this.updatePermissions(() => this.transport.checkPermissions());
+  }
+
+  /** Connections whose speakers are currently connected. */
+  connectedSpeakers() {
+    return this.state.connectedIds.map((id) => this.connections.get(id)!);
+  }
+
+  /**
+   * Loads the remembered speakers and starts tracking the Bluetooth adapter. Returns a
+   * cleanup function that stops tracking and tears down scans and connections.
+   */
+  start() {
+    // The saved speakers may load after the cleanup function ran; they are ignored then.
+    let disposed = false;
+    loadRememberedDevices()
+      .then((devices) => {
+        if (disposed) return;
+        devices.forEach((device) => this.add(device, true));
+        this.reconnectRemembered();
+      })
+      .catch((error) => eventLog.error('connection', 'Loading saved speakers failed', error));
+
+    const appStateSubscription = AppState.addEventListener('change', (appState) => {
+      // Scans cannot run in the background, and a continuous one would drain the battery.
+      if (appState === 'background') {
+        this.stopScan();
+      }
+      // Permissions may have been changed in Settings while the app was in the background.
+      if (appState === 'active' && this.state.bluetoothState === 'PoweredOn') {
+        this.refreshPermissions();
+      }
+    });
+
+    const removeStateListener = this.transport.onStateChange((bluetoothState) => {
+      eventLog.info('adapter', `Bluetooth ${bluetoothState}`);
+      this.setState({ bluetoothState });
+      if (bluetoothState === 'PoweredOn') {
+        this.setState({ error: null, statusMessage: 'Bluetooth is On. Checking permissions...' });
+        this.refreshPermissions();
+      } else {
+        this.handleAdapterUnavailable(bluetoothState);
+      }
+    });
+
+    return () => {
+      disposed = true;
+      removeStateListener();
+      appStateSubscription.remove();
+      this.stopScan();
+      this.connections.forEach((connection) => connection.dispose());
+    };
+  }
+
+  startScan(mode: ScanMode = 'timed') {
+    if (this.state.scanning) return;
+    if (!this.isAdapterReady()) {
+      throw new UserFacingError('Enable Bluetooth and grant permissions.');
+    }
+
+    this.setState({
+      scanMode: mode,
+      scanning: true,
+      error: null,
+      foundDevices: [],
+      statusMessage: `Scanning for devices (especially "${SPEAKER_NAME_TARGET}")...`,
+    });
+    this.scanner.start(mode);
+  }
+
+  stopScan() {
+    this.scanner.stop();
+  }
+
+  /** Whether scans open a device chooser, which only a button press may start; see `SpeakerTransport`. */
+  get scanOpensChooser() {
+    return !!this.transport.scanOpensChooser;
+  }
+
+  /** Adds a scanned speaker to the registry, selects it and connects to it. */
+  async connect(device: DiscoveredSpeaker) {
+    const connection = this.add(device, false);
+    connection.seen(device);
+    this.setState({
+      selectedId: device.id,
+      foundDevices: this.state.foundDevices.filter((d) => d.id !== device.id),
+    });
+    await connection.connect();
+  }
+
+  /**
+   * The speaker advertising `serial`. Saved speakers are matched on what they last
+   * advertised, so they are only found once seen since the app started; `discovered`
+   * is set for speakers that are not saved yet.
+   */
+  findBySerial(serial: string): { id: string; discovered: DiscoveredSpeaker | null } | null {
+    for (const [id, connection] of this.connections) {
+      if (connection.getState().advertisement?.serial === serial) {
+        return { id, discovered: null };
+      }
+    }
+    const discovered = this.state.foundDevices.find((device) => device.advertisement?.serial === serial);
+    return discovered ? { id: discovered.id, discovered } : null;
+  }
+
+  /**
+   * A connection to a scanned speaker that is neither added to the registry nor
+   * remembered, e.g. to make it chime before the user decides to add it. The caller
+   * disconnects and disposes of it when done.
+   */
+  createTemporaryConnection(device: { id: string; name: string | null }) {
+    return new SpeakerConnection(this.transport, device, {
+      temporary: true,
+      isAdapterReady: () => this.isAdapterReady(),
+    });
+  }
+
+  select(id: string) {
+    if (this.connections.has(id)) {
+      this.setState({ selectedId: id });
+    }
+  }
+
+  /** Forgets a speaker and removes it from the registry. */
+  async forget(id: string) {
+    const connection = this.connections.get(id);
+    if (!connection) return;
+
+    await connection.forget();
+    connection.dispose();
+    this.connections.delete(id);
+    this.syncConnectedIds();
+    const speakerIds = this.state.speakerIds.filter((speakerId) => speakerId !== id);
+    this.setState({
+      speakerIds,
+      selectedId: this.state.selectedId === id ? (speakerIds[0] ?? null) : this.state.selectedId,
+    });
+  }
+
+  /** Applies `changes` to every connected speaker, or to the ones in `ids`. */
+  async updateSettings(changes: SettingsPatch, ids?: string[]): Promise<GroupResult> {
+    const targets = this.connectedSpeakers().filter((connection) => !ids || ids.includes(connection.id));
+    const results = await Promise.allSettled(targets.map((connection) => connection.updateSettings(changes)));
+
+    const result: GroupResult = { succeeded: [], failed: [] };
+    results.forEach((outcome, index) => {
+      const { id } = targets[index];
+      if (outcome.status === 'fulfilled') {
+        result.succeeded.push(id);
+      } else {
+        result.failed.push({ id, error: outcome.reason as Error });
+      }
+    });
+    this.setState({
+      statusMessage:
+        result.failed.length === 0
+          ? `Updated ${result.succeeded.length} speaker(s).`
+          : `Failed to update ${result.failed
+              .map(({ id }) => deviceLabel({ id, name: this.connections.get(id)?.getState().name ?? null }))
+              .join(', ')}.`,
+    });
+    return result;
+  }
+
+  private add(device: { id: string; name: string | null }, remembered: boolean) {
+    const existing = this.connections.get(device.id);
+    if (existing) {
+      return existing;
+    }
+
+    const connection = new SpeakerConnection(this.transport, device, {
+      remembered,
+      isAdapterReady: () => this.isAdapterReady(),
+    });
+    this.connections.set(device.id, connection);
+    connection.subscribe(() => this.syncConnectedIds());
+    this.setState({
+      speakerIds: [...this.state.speakerIds, device.id],
+      selectedId: this.state.selectedId ?? device.id,
+    });
+    return connection;
+  }
+
+  private handleScanResults(devices: DiscoveredSpeaker[]) {
+    const found: DiscoveredSpeaker[] = [];
+    devices.forEach((device) => {
+      const known = this.connections.get(device.id);
+      if (known) {
+        known.seen(device);
+      } else {
+        found.push(device);
+      }
+    });
+    this.setState({ foundDevices: found });
+  }
+
+  private handleScanStopped(reason: ScanStopReason, error: Error | null) {
+    const patch: Partial<SpeakerRegistryState> = { scanMode: null, scanning: false };
+    const described = reason === 'failed' ? describeError(error) : null;
+    if (described?.kind === 'cancelled') {
+      // The user closed the browser's device chooser.
+      patch.statusMessage = 'Scan cancelled.';
+    } else if (described) {
+      patch.error = described;
+      patch.statusMessage = `Scan failed: ${described.message}`;
+    } else if (reason === 'finished') {
+      patch.statusMessage =
+        this.state.foundDevices.length > 0 ? 'Scan finished. Select a device.' : 'Scan finished. No new devices found.';
+    } else {
+      patch.statusMessage = 'Scan stopped.';
+    }
+    this.setState(patch);
+  }
+
+  private syncConnectedIds() {
+    const connectedIds = this.state.speakerIds.filter(
+      (id) => this.connections.get(id)?.getState().status === 'connected'
+    );
+    if (connectedIds.join() !== this.state.connectedIds.join()) {
+      this.setState({ connectedIds });
+    }
+  }
+
+  private isAdapterReady() {
+    return this.state.bluetoothState === 'PoweredOn' && !!this.state.permissionsGranted;
+  }
+
+  private reconnectRemembered() {
+    this.connections.forEach((connection) => connection.reconnectIfRemembered());
+  }
+
+  private async updatePermissions(check: () => Promise<boolean>) {
+    try {
+      const permissionsGranted = await check();
+      this.setState({
+        permissionsGranted,
+        error: permissionsGranted ? null : speakerError('permissionDenied'),
+        statusMessage: permissionsGranted ? 'Permissions granted. Ready.' : 'Bluetooth permissions needed.',
+      });
+      this.reconnectRemembered();
+      return permissionsGranted;
+    } catch (error) {
+      this.setState({ error: describeError(error), statusMessage: 'Error checking permissions.' });
+      return false;
+    }
+  }
+
+  private handleAdapterUnavailable(bluetoothState: AdapterState) {
+    this.stopScan();
+    this.connections.forEach((connection) => connection.adapterUnavailable());
+    this.setState({
+      permissionsGranted: null,
+      foundDevices: [],
+      error: ADAPTER_ERRORS[bluetoothState] ?? null,
+      statusMessage:
+        bluetoothState === 'PoweredOff' ? 'Please turn on Bluetooth' : `Bluetooth state: ${bluetoothState}`,
+    });
+  }
+
+  private setState(patch: Partial<SpeakerRegistryState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,270 @@
+import { SPEAKER_NAME_TARGET } from '@/constants/Speaker';
+import {
+  AdapterState,
+  CharacteristicProperty,
+  ConnectedDevice,
+  GattService,
+  ScannedDevice,
+  SpeakerTransport,
+} from '@/services/speaker/transport';
+
+// The chooser only reports a device once; it is reported again at this interval while
+// the scan runs, so the scan list does not drop it as out of range.
+const REPORT_INTERVAL_MS = 1000;
+
+function toBytes(view: DataView) {
+  return new Uint8Array(view.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength));
+}
+
+function propertiesOf({ properties }: BluetoothRemoteGATTCharacteristic) {
+  const result: CharacteristicProperty[] = [];
+  if (properties.read) result.push('read');
+  if (properties.write) result.push('write');
+  if (properties.writeWithoutResponse) result.push('writeWithoutResponse');
+  if (properties.notify) result.push('notify');
+  if (properties.indicate) result.push('indicate');
+  return result;
+}
+
+/**
+ * Speaker transport backed by the Web Bluetooth API, for Chrome and Edge. Browsers do
+ * not scan in the background: a scan opens the browser's device chooser, which needs
+ * a click to open, and reports the speaker the user picks. Only speakers picked since
+ * the page loaded can be connected to, plus, where the browser supports `getDevices()`,
+ * those the site was allowed to use before; others fail with a `NotPickedError`.
+ * Signal strength and the MTU are not exposed.
+ */
+export class WebBluetoothTransport implements SpeakerTransport {
+  private readonly devices = new Map<string, BluetoothDevice>();
+  private readonly characteristics = new Map<string, BluetoothRemoteGATTCharacteristic[]>();
+  // Keyed by device id: listeners may be registered before the device is known.
+  private readonly disconnectListeners = new Map<string, Set<(error: Error | null) => void>>();
+  private scanTimer: ReturnType<typeof setInterval> | null = null;
+  private scanGeneration = 0;
+
+  readonly scanOpensChooser = true;
+
+  private get bluetooth(): Bluetooth | null {
+    return typeof navigator !== 'undefined' && navigator.bluetooth ? navigator.bluetooth : null;
+  }
+
+  onStateChange(listener: (state: AdapterState) => void) {
+    const { bluetooth } = this;
+    if (!bluetooth) {
+      listener('Unsupported');
+      return () => {};
+    }
+    const update = () =>
+      bluetooth.getAvailability().then(
+        (available) => listener(available ? 'PoweredOn' : 'PoweredOff'),
+        () => listener('Unknown')
+      );
+    update();
+    bluetooth.addEventListener('availabilitychanged', update);
+    return () => bluetooth.removeEventListener('availabilitychanged', update);
+  }
+
+  // The browser asks for permission in its device chooser.
+  async checkPermissions() {
+    return this.bluetooth !== null;
+  }
+
+  async requestPermissions() {
+    return this.bluetooth !== null;
+  }
+
+  startScan(serviceUuids: string[], listener: (error: Error | null, device: ScannedDevice | null) => void) {
+    const { bluetooth } = this;
+    if (!bluetooth) {
+      listener(new DOMException('Web Bluetooth is not available.', 'NotSupportedError'), null);
+      return;
+    }
+    const generation = ++this.scanGeneration;
+    // Speakers running old firmware may not advertise the service, so the name is accepted too.
+    const request = bluetooth.requestDevice({
+      filters: [...serviceUuids.map((uuid) => ({ services: [uuid] })), { namePrefix: SPEAKER_NAME_TARGET }],
+      optionalServices: serviceUuids,
+    });
+    request.then(
+      (device) => {
+        if (generation !== this.scanGeneration) return;
+        this.remember(device);
+        // Browsers do not share what the speaker advertises.
+        const scanned: ScannedDevice = {
+          id: device.id,
+          name: device.name ?? null,
+          rssi: null,
+          manufacturerData: null,
+          serviceData: null,
+        };
+        const report = () => listener(null, scanned);
+        report();
+        this.scanTimer = setInterval(report, REPORT_INTERVAL_MS);
+      },
+      (error: Error) => {
+        if (generation !== this.scanGeneration) return;
+        // Closing the chooser is reported as NotFoundError, as is a missing adapter.
+        listener(
+          error.name === 'NotFoundError' ? new DOMException('The device chooser was closed.', 'AbortError') : error,
+          null
+        );
+      }
+    );
+  }
+
+  stopScan() {
+    this.scanGeneration++;
+    if (this.scanTimer) {
+      clearInterval(this.scanTimer);
+      this.scanTimer = null;
+    }
+  }
+
+  async connect(deviceId: string): Promise<ConnectedDevice> {
+    if (!this.devices.has(deviceId)) {
+      await this.restorePermittedDevices();
+    }
+    const device = this.device(deviceId);
+    await device.gatt!.connect();
+    // Web Bluetooth does not expose the MTU; the connection falls back to the default.
+    return { id: device.id, name: device.name ?? null, mtu: 0 };
+  }
+
+  async discover(deviceId: string) {
+    const server = this.server(deviceId);
+    const services = await server.getPrimaryServices();
+    const characteristics = await Promise.all(
+      services.map((service) => service.getCharacteristics().catch(() => []))
+    );
+    this.characteristics.set(deviceId, characteristics.flat());
+  }
+
+  async services(deviceId: string): Promise<GattService[]> {
+    const byService = new Map<string, GattService>();
+    for (const characteristic of this.characteristics.get(deviceId) ?? []) {
+      const serviceUuid = characteristic.service.uuid;
+      const service = byService.get(serviceUuid) ?? { uuid: serviceUuid, characteristics: [] };
+      byService.set(serviceUuid, service);
+      // getDescriptors() rejects when there are none.
+      const descriptors = await characteristic.getDescriptors().catch(() => []);
+      service.characteristics.push({
+        uuid: characteristic.uuid,
+        serviceUuid,
+        properties: propertiesOf(characteristic),
+        descriptors: await Promise.all(
+          descriptors.map(async (descriptor) => ({
+            uuid: descriptor.uuid,
+            // Some descriptors are blocked or need authentication to read; list them anyway.
+            value: await descriptor.readValue().then(toBytes, () => null),
+          }))
+        ),
+      });
+    }
+    return [...byService.values()];
+  }
+
+  async disconnect(deviceId: string) {
+    // The gattserverdisconnected event reports it to the listeners.
+    this.devices.get(deviceId)?.gatt?.disconnect();
+  }
+
+  onDisconnected(deviceId: string, listener: (error: Error | null) => void) {
+    const listeners = this.disconnectListeners.get(deviceId) ?? new Set();
+    listeners.add(listener);
+    this.disconnectListeners.set(deviceId, listeners);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  async readRssi(): Promise<number> {
+    throw new DOMException('Browsers do not report the signal strength of a connection.', 'NotSupportedError');
+  }
+
+  async read(deviceId: string, serviceUuid: string, characteristicUuid: string) {
+    return toBytes(await this.characteristic(deviceId, serviceUuid, characteristicUuid).readValue());
+  }
+
+  async write(deviceId: string, serviceUuid: string, characteristicUuid: string, value: Uint8Array) {
+    await this.characteristic(deviceId, serviceUuid, characteristicUuid).writeValueWithResponse(value);
+  }
+
+  async writeWithoutResponse(deviceId: string, serviceUuid: string, characteristicUuid: string, value: Uint8Array) {
+    await this.characteristic(deviceId, serviceUuid, characteristicUuid).writeValueWithoutResponse(value);
+  }
+
+  monitor(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    listener: (error: Error | null, value: Uint8Array | null) => void
+  ) {
+    let characteristic: BluetoothRemoteGATTCharacteristic;
+    try {
+      characteristic = this.characteristic(deviceId, serviceUuid, characteristicUuid);
+    } catch (error) {
+      listener(error as Error, null);
+      return () => {};
+    }
+    let active = true;
+    const handleValue = () => {
+      if (active && characteristic.value) listener(null, toBytes(characteristic.value));
+    };
+    characteristic.addEventListener('characteristicvaluechanged', handleValue);
+    characteristic.startNotifications().catch((error: Error) => {
+      if (active) listener(error, null);
+    });
+    return () => {
+      active = false;
+      characteristic.removeEventListener('characteristicvaluechanged', handleValue);
+      // Fails harmlessly once the link is gone.
+      characteristic.stopNotifications().catch(() => {});
+    };
+  }
+
+  private remember(device: BluetoothDevice) {
+    if (this.devices.has(device.id)) return;
+    this.devices.set(device.id, device);
+    device.addEventListener('gattserverdisconnected', () => {
+      this.characteristics.delete(device.id);
+      this.disconnectListeners.get(device.id)?.forEach((listener) => listener(null));
+    });
+  }
+
+  // Saved speakers are not in `devices` after the page reloads; the browser may still allow them.
+  private async restorePermittedDevices() {
+    const { bluetooth } = this;
+    if (!bluetooth || typeof bluetooth.getDevices !== 'function') return;
+    try {
+      (await bluetooth.getDevices()).forEach((device) => this.remember(device));
+    } catch {
+      // Not allowed here; the speaker has to be picked again.
+    }
+  }
+
+  private device(deviceId: string) {
+    const device = this.devices.get(deviceId);
+    if (!device?.gatt) {
+      throw new DOMException('The speaker has not been picked since the page loaded.', 'NotPickedError');
+    }
+    return device;
+  }
+
+  private server(deviceId: string) {
+    const server = this.device(deviceId).gatt!;
+    if (!server.connected) {
+      throw new DOMException('The speaker is not connected.', 'NetworkError');
+    }
+    return server;
+  }
+
+  private characteristic(deviceId: string, serviceUuid: string, characteristicUuid: string) {
+    const characteristic = this.characteristics
+      .get(deviceId)
+      ?.find((c) => c.service.uuid === serviceUuid && c.uuid === characteristicUuid);
+    if (!characteristic) {
+      throw new DOMException(`Characteristic ${characteristicUuid} was not discovered.`, 'NotFoundError');
+    }
+    return characteristic;
+  }
+}
@@ -0,0 +1,125 @@
+import { CommandCancelledError, CommandQueue, CommandTimeoutError, NO_RETRY } from '@/services/speaker/CommandQueue';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('CommandQueue', () => {
+  it('runs commands one at a time in order', async () => {
+    const queue = new CommandQueue();
+    const log: string[] = [];
+    const command = (label: string, ms: number) =>
+      queue.enqueue(
+        label,
+        async () => {
+          log.push(`start ${label}`);
+          await sleep(ms);
+          log.push(`end ${label}`);
+          return label;
+        },
+        { timeoutMs: 1000, retry: NO_RETRY }
+      );
+
+    const results = Promise.all([command('a', 50), command('b', 10)]);
+    await jest.advanceTimersByTimeAsync(100);
+
+    await expect(results).resolves.toEqual(['a', 'b']);
+    expect(log).toEqual(['start a', 'end a', 'start b', 'end b']);
+  });
+
+  it('waits for a timed-out command to settle before running the next one', async () => {
+    const queue = new CommandQueue();
+    const log: string[] = [];
+
+    const slow = queue
+      .enqueue(
+        'slow',
+        async () => {
+          await sleep(300);
+          log.push('slow finished');
+        },
+        { timeoutMs: 100, retry: NO_RETRY }
+      )
+      .catch((error: unknown) => error);
+    const next = queue.enqueue(
+      'next',
+      async () => {
+        log.push('next started');
+      },
+      { timeoutMs: 1000, retry: NO_RETRY }
+    );
+
+    await jest.advanceTimersByTimeAsync(150);
+    // The caller hears about the timeout right away...
+    await expect(slow).resolves.toBeInstanceOf(CommandTimeoutError);
+    expect(log).toEqual([]);
+
+    // ...but the link stays reserved until the abandoned exchange is done with it.
+    await jest.advanceTimersByTimeAsync(200);
+    await next;
+    expect(log).toEqual(['slow finished', 'next started']);
+  });
+
+  it('does not start a retry while the timed-out try is still running', async () => {
+    const queue = new CommandQueue();
+    let running = 0;
+    let overlapped = false;
+
+    const result = queue
+      .enqueue(
+        'flaky',
+        async () => {
+          running++;
+          overlapped ||= running > 1;
+          await sleep(150);
+          running--;
+        },
+        { timeoutMs: 100, retry: { attempts: 2, delayMs: 0 } }
+      )
+      .catch((error: unknown) => error);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toBeInstanceOf(CommandTimeoutError);
+    expect(overlapped).toBe(false);
+  });
+
+  it('does not retry a command that was cancelled while a timed-out try was running', async () => {
+    const queue = new CommandQueue();
+    const log: string[] = [];
+
+    const flaky = queue
+      .enqueue(
+        'flaky',
+        async () => {
+          log.push('flaky started');
+          await sleep(300);
+          log.push('flaky finished');
+        },
+        { timeoutMs: 100, retry: { attempts: 2, delayMs: 0 } }
+      )
+      .catch((error: unknown) => error);
+
+    await jest.advanceTimersByTimeAsync(150);
+    queue.rejectAll(new CommandCancelledError('Disconnected.'));
+    const next = queue.enqueue(
+      'next',
+      async () => {
+        log.push('next started');
+      },
+      { timeoutMs: 1000, retry: NO_RETRY }
+    );
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(flaky).resolves.toBeInstanceOf(CommandCancelledError);
+    await next;
+    expect(log).toEqual(['flaky started', 'flaky finished', 'next started']);
+  });
+});
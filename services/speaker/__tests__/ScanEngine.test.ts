@@ -0,0 +1,72 @@
+import { SPEAKER_SCAN_DURATION_MS } from '@/constants/Speaker';
+import { FakeTransport } from '@/services/speaker/FakeTransport';
+import { ScanEngine } from '@/services/speaker/ScanEngine';
+import { ScannedDevice } from '@/services/speaker/transport';
+
+type ScanCallback = (error: Error | null, device: ScannedDevice | null) => void;
+
+// Behaves like a browser: the scan reports nothing until the user picks a device in the chooser.
+class ChooserTransport extends FakeTransport {
+  readonly scanOpensChooser = true;
+  stopped = false;
+  private listener: ScanCallback | null = null;
+
+  startScan(_serviceUuids: string[], listener: ScanCallback) {
+    this.listener = listener;
+  }
+
+  stopScan() {
+    this.stopped = true;
+  }
+
+  pick(device: ScannedDevice) {
+    if (!this.stopped) this.listener?.(null, device);
+  }
+}
+
+const PICKED: ScannedDevice = {
+  id: 'picked',
+  name: 'Speaker',
+  rssi: null,
+  manufacturerData: null,
+  serviceData: null,
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('ScanEngine', () => {
+  it('stops a timed scan after the scan duration', async () => {
+    const onStopped = jest.fn();
+    const engine = new ScanEngine(new FakeTransport(), { onDevices: () => {}, onStopped });
+
+    engine.start('timed');
+    await jest.advanceTimersByTimeAsync(SPEAKER_SCAN_DURATION_MS);
+
+    expect(engine.scanning).toBe(false);
+    expect(onStopped).toHaveBeenCalledWith('finished', null);
+  });
+
+  it('keeps a timed chooser scan open until the user picks a device', async () => {
+    const transport = new ChooserTransport();
+    const onDevices = jest.fn();
+    const onStopped = jest.fn();
+    const engine = new ScanEngine(transport, { onDevices, onStopped });
+
+    engine.start('timed');
+    await jest.advanceTimersByTimeAsync(SPEAKER_SCAN_DURATION_MS * 3);
+    expect(engine.scanning).toBe(true);
+    expect(transport.stopped).toBe(false);
+
+    transport.pick(PICKED);
+
+    expect(engine.scanning).toBe(false);
+    expect(onStopped).toHaveBeenCalledWith('finished', null);
+    expect(onDevices).toHaveBeenLastCalledWith([expect.objectContaining({ id: 'picked', name: 'Speaker' })]);
+  });
+});
@@ -0,0 +1,191 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { SPEAKER_COMMAND_RETRY_ATTEMPTS, SPEAKER_COMMAND_TIMEOUT_MS } from '@/constants/Speaker';
+import { CommandCancelledError, CommandTimeoutError } from '@/services/speaker/CommandQueue';
+import { FAKE_PAIRING_CODE, FakeTransport } from '@/services/speaker/FakeTransport';
+import { loadRememberedDevices } from '@/services/speaker/rememberedDevices';
+import { DiscoveredSpeaker, ScanEngine } from '@/services/speaker/ScanEngine';
+import { SpeakerConnection } from '@/services/speaker/SpeakerConnection';
+
+const SPEAKER_ID = 'fake-speaker';
+
+/** Runs timers for `ms`, then returns what `promise` settled with, or throws what it rejected with. */
+async function settle<T>(promise: Promise<T>, ms = 1000): Promise<T> {
+  const outcome = promise.then(
+    (value) => ({ ok: true as const, value }),
+    (error: unknown) => ({ ok: false as const, error })
+  );
+  await jest.advanceTimersByTimeAsync(ms);
+  const result = await outcome;
+  if (!result.ok) {
+    throw result.error;
+  }
+  return result.value;
+}
+
+function setup() {
+  const transport = new FakeTransport();
+  const peripheral = transport.addSpeaker(SPEAKER_ID, 'Karolina Speaker');
+  const connection = new SpeakerConnection(
+    transport,
+    { id: SPEAKER_ID, name: 'Karolina Speaker' },
+    { isAdapterReady: () => transport.adapterState === 'PoweredOn' }
+  );
+  return { transport, peripheral, connection };
+}
+
+async function connectAndPair(connection: SpeakerConnection) {
+  await settle(connection.connect());
+  await settle(connection.pair(FAKE_PAIRING_CODE));
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.useFakeTimers();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('SpeakerConnection over FakeTransport', () => {
+  it('scans, connects, discovers, writes, reads and disconnects', async () => {
+    const { transport, connection } = setup();
+
+    let found: DiscoveredSpeaker[] = [];
+    const scanner = new ScanEngine(transport, { onDevices: (devices) => (found = devices), onStopped: () => {} });
+    scanner.start('continuous');
+    await jest.advanceTimersByTimeAsync(1000);
+    scanner.stop();
+    expect(found.map((device) => device.id)).toEqual([SPEAKER_ID]);
+
+    await settle(connection.connect());
+    expect(connection.getState()).toMatchObject({ status: 'connected', security: 'pairingRequired' });
+    expect(connection.getState().device?.mtu).toBe(185);
+
+    await settle(connection.pair(FAKE_PAIRING_CODE));
+    expect(connection.getState().security).toBe('secured');
+
+    const speakerState = await settle(connection.updateSpeakerState({ volume: 42 }));
+    expect(speakerState.volume).toBe(42);
+    expect((await settle(connection.refreshState())).volume).toBe(42);
+
+    await settle(connection.disconnect());
+    expect(connection.getState()).toMatchObject({ status: 'idle', device: null });
+    expect(transport.isConnected(SPEAKER_ID)).toBe(false);
+  });
+
+  it('does not remember a temporary connection', async () => {
+    const transport = new FakeTransport();
+    transport.addSpeaker(SPEAKER_ID, 'Karolina Speaker');
+    const connection = new SpeakerConnection(
+      transport,
+      { id: SPEAKER_ID, name: 'Karolina Speaker' },
+      { temporary: true, isAdapterReady: () => true }
+    );
+
+    await settle(connection.connect());
+    expect(connection.getState()).toMatchObject({ status: 'connected', remembered: false });
+    await expect(settle(connection.request('identify', {}))).resolves.toMatchObject({
+      durationMs: expect.any(Number),
+    });
+    await settle(connection.disconnect());
+
+    expect(await settle(loadRememberedDevices())).toEqual([]);
+  });
+
+  it('delivers alarm events from the speaker', async () => {
+    const { peripheral, connection } = setup();
+    await connectAndPair(connection);
+    const alarms: unknown[] = [];
+    connection.onEvent('alarm', (alarm) => alarms.push(alarm));
+
+    peripheral.speaker.fireAlarm('timer', 'Pasta');
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(alarms).toEqual([{ kind: 'timer', label: 'Pasta' }]);
+  });
+
+  it('reports a failed connect and stays idle', async () => {
+    const { transport, connection } = setup();
+    transport.failNext('connect', new Error('Connection refused'));
+
+    await settle(connection.connect());
+
+    expect(connection.getState()).toMatchObject({ status: 'idle', device: null });
+    expect(connection.getState().error).not.toBeNull();
+    expect(transport.isConnected(SPEAKER_ID)).toBe(false);
+  });
+
+  it('drops the link when discovery fails', async () => {
+    const { transport, connection } = setup();
+    transport.failNext('discover', new Error('Service discovery failed'));
+
+    await settle(connection.connect());
+
+    expect(connection.getState()).toMatchObject({ status: 'idle', device: null });
+    expect(transport.isConnected(SPEAKER_ID)).toBe(false);
+    // A new attempt is not refused as already connected.
+    await settle(connection.connect());
+    expect(connection.getState().status).toBe('connected');
+  });
+
+  it('retries a request after a write error', async () => {
+    const { transport, connection } = setup();
+    await connectAndPair(connection);
+    transport.failNext('write', new Error('Write failed'));
+
+    await expect(settle(connection.refreshState())).resolves.toMatchObject({ volume: expect.any(Number) });
+  });
+
+  it('retries a request after a read error', async () => {
+    const { transport, connection } = setup();
+    await connectAndPair(connection);
+    transport.failNext('read', new Error('Read failed'));
+
+    await expect(settle(connection.refreshState())).resolves.toMatchObject({ volume: expect.any(Number) });
+  });
+
+  it('rejects raw writes and reads that fail', async () => {
+    const { transport, connection } = setup();
+    await connectAndPair(connection);
+    const [service] = await settle(connection.listServices());
+    const [control] = service.characteristics;
+
+    transport.failNext('write', new Error('Write failed'));
+    await expect(
+      settle(connection.writeCharacteristic(service.uuid, control.uuid, Uint8Array.of(1)))
+    ).rejects.toThrow('Write failed');
+
+    transport.failNext('read', new Error('Read failed'));
+    await expect(settle(connection.readCharacteristic(service.uuid, control.uuid))).rejects.toThrow('Read failed');
+  });
+
+  it('cancels a request when the link drops mid-command', async () => {
+    const { transport, peripheral, connection } = setup();
+    await connectAndPair(connection);
+    peripheral.faults.config.responseDelayMs = 2000;
+
+    const request = settle(connection.refreshState(), 3000);
+    await jest.advanceTimersByTimeAsync(100);
+    transport.simulateDisconnect(SPEAKER_ID, new Error('Peripheral disconnected'));
+    expect(connection.getState().device).toBeNull();
+
+    await expect(request).rejects.toBeInstanceOf(CommandCancelledError);
+  });
+
+  it('times out when the speaker does not answer', async () => {
+    const { peripheral, connection } = setup();
+    await connectAndPair(connection);
+    peripheral.faults.config.responseDelayMs = SPEAKER_COMMAND_TIMEOUT_MS * 2;
+
+    const request = settle(connection.refreshState(), SPEAKER_COMMAND_TIMEOUT_MS * 2 * SPEAKER_COMMAND_RETRY_ATTEMPTS);
+
+    await expect(request).rejects.toBeInstanceOf(CommandTimeoutError);
+    expect(connection.getState().status).toBe('connected');
+  });
+});
@@ -0,0 +1,42 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { FakeTransport } from '@/services/speaker/FakeTransport';
+import { saveRememberedDevice } from '@/services/speaker/rememberedDevices';
+import { SpeakerRegistry } from '@/services/speaker/SpeakerRegistry';
+
+const SPEAKER = { id: 'fake-speaker', name: 'Karolina Speaker' };
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await saveRememberedDevice(SPEAKER);
+  jest.useFakeTimers();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('SpeakerRegistry', () => {
+  it('adds the saved speakers once they are loaded', async () => {
+    const registry = new SpeakerRegistry(new FakeTransport());
+    const stop = registry.start();
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(registry.getState().speakerIds).toEqual([SPEAKER.id]);
+    stop();
+  });
+
+  it('ignores saved speakers that load after it was stopped', async () => {
+    const registry = new SpeakerRegistry(new FakeTransport());
+    const stop = registry.start();
+    stop();
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(registry.getState().speakerIds).toEqual([]);
+    expect(registry.getConnection(SPEAKER.id)).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import { describeError, speakerError, UserFacingError } from '@/services/speaker/errors';
+import { eventLog } from '@/services/speaker/eventLog';
+
+beforeEach(() => {
+  // Entries are saved on a timer.
+  jest.useFakeTimers();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('describeError', () => {
+  it('keeps the message of a user-facing error', () => {
+    const described = describeError(new UserFacingError('Pair with Speaker first.'));
+
+    expect(described.kind).toBe('unknown');
+    expect(described.message).toBe('Pair with Speaker first.');
+  });
+
+  it('shows other errors with the generic copy and logs their message', () => {
+    const log = jest.spyOn(eventLog, 'warn');
+
+    const described = describeError(new Error('[AsyncStorage] Database or disk is full'));
+
+    expect(described).toEqual(speakerError('unknown'));
+    expect(log).toHaveBeenCalledWith(
+      'connection',
+      'Unexpected error',
+      expect.objectContaining({ error: '[AsyncStorage] Database or disk is full' })
+    );
+  });
+
+  it('asks to pick a speaker the browser has not allowed yet instead of retrying', () => {
+    const described = describeError(new DOMException('Not picked.', 'NotPickedError'));
+
+    expect(described.kind).toBe('notPicked');
+    expect(described.retryable).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+import { EventLog } from '@/services/speaker/eventLog';
+
+beforeEach(() => {
+  // Entries are saved on a timer.
+  jest.useFakeTimers();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('EventLog', () => {
+  it('drops the oldest entries beyond its capacity', () => {
+    const log = new EventLog('test.eventLog', 3, 3);
+    ['one', 'two', 'three', 'four'].forEach((message) => log.info('connection', message));
+
+    expect(log.getEntries().map((entry) => entry.message)).toEqual(['two', 'three', 'four']);
+  });
+
+  it('keeps debug entries from pushing out the others', () => {
+    const log = new EventLog('test.eventLog', 3, 2);
+    log.info('connection', 'Connected');
+    for (let i = 0; i < 10; i++) {
+      log.debug('gatt', `Write ${i}`);
+    }
+    log.error('protocol', 'Request failed', new Error('Timed out'));
+
+    expect(log.getEntries().map((entry) => entry.message)).toEqual([
+      'Connected',
+      'Write 8',
+      'Write 9',
+      'Request failed',
+    ]);
+  });
+
+  it('returns a new array only after a change', () => {
+    const log = new EventLog('test.eventLog');
+    log.info('scan', 'Scan started');
+    const entries = log.getEntries();
+
+    expect(log.getEntries()).toBe(entries);
+    log.info('scan', 'Scan stopped');
+    expect(log.getEntries()).not.toBe(entries);
+    expect(entries).toHaveLength(1);
+  });
+});
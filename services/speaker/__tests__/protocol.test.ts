@@ -0,0 +1,17 @@
+import { createEvent, decodeFrame, encodeFrame, EventPayloads, EventType, isEventType } from '@/services/speaker/protocol';
+
+// One valid payload per event type; the compiler asks for a new one whenever a type is added.
+const SAMPLE_EVENTS: { [T in EventType]: EventPayloads[T] } = {
+  stateChanged: { volume: 40, muted: false, playback: 'playing', source: 'bluetooth' },
+  wifiStatus: { state: 'connected', ssid: 'Home', ip: '192.168.1.20', reason: null },
+  alarm: { kind: 'timer', label: 'Pasta' },
+};
+
+describe('protocol events', () => {
+  it.each(Object.keys(SAMPLE_EVENTS) as EventType[])('round-trips %s events', (type) => {
+    const event = createEvent(type, SAMPLE_EVENTS[type]);
+
+    expect(isEventType(type)).toBe(true);
+    expect(decodeFrame(encodeFrame(event))).toEqual(event);
+  });
+});
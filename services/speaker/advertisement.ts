@@ -0,0 +1,79 @@
+/**
+ * Speaker details carried in advertisements, so a scan can tell speakers apart and
+ * show their setup state before connecting. The payload travels as manufacturer data
+ * under `SPEAKER_COMPANY_ID`, or as service data of the speaker service; both hold the
+ * same bytes:
+ *
+ *   version (1) | flags (1) | serial number (4, big-endian)
+ *
+ * It is kept this small so that it fits in the advertising packet next to the 128-bit
+ * service UUID. Shared with the Node peripheral, like the protocol module.
+ */
+
+/** Company identifier reserved by the Bluetooth SIG for testing; the speaker has none of its own. */
+export const SPEAKER_COMPANY_ID = 0xffff;
+
+export const ADVERTISEMENT_VERSION = 1;
+
+const PAYLOAD_SIZE = 6;
+const FLAG_WIFI_CONFIGURED = 0x01;
+const FLAG_PAIRED = 0x02;
+
+/** Serial numbers are printed on the speaker as eight hex digits. */
+export const SERIAL_PATTERN = /^[0-9A-F]{8}$/;
+
+/** `unconfigured` until the speaker has joined a Wi-Fi network. */
+export type SetupState = 'unconfigured' | 'configured';
+
+export type SpeakerAdvertisement = {
+  serial: string;
+  setupState: SetupState;
+  /** Whether any app has paired with the speaker. */
+  paired: boolean;
+};
+
+export function encodeAdvertisementPayload({ serial, setupState, paired }: SpeakerAdvertisement) {
+  if (!SERIAL_PATTERN.test(serial)) {
+    throw new Error(`Invalid serial number "${serial}".`);
+  }
+  const payload = new Uint8Array(PAYLOAD_SIZE);
+  const view = new DataView(payload.buffer);
+  view.setUint8(0, ADVERTISEMENT_VERSION);
+  view.setUint8(1, (setupState === 'configured' ? FLAG_WIFI_CONFIGURED : 0) | (paired ? FLAG_PAIRED : 0));
+  view.setUint32(2, parseInt(serial, 16));
+  return payload;
+}
+
+/** Manufacturer data as it appears in the advertisement: the company id, little-endian, then the payload. */
+export function encodeManufacturerData(advertisement: SpeakerAdvertisement) {
+  const data = new Uint8Array(2 + PAYLOAD_SIZE);
+  new DataView(data.buffer).setUint16(0, SPEAKER_COMPANY_ID, true);
+  data.set(encodeAdvertisementPayload(advertisement), 2);
+  return data;
+}
+
+/** Decodes a payload; returns `null` for anything that is not a speaker payload of a known version. */
+export function parseAdvertisementPayload(payload: Uint8Array): SpeakerAdvertisement | null {
+  if (payload.length < PAYLOAD_SIZE) {
+    return null;
+  }
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  if (view.getUint8(0) !== ADVERTISEMENT_VERSION) {
+    return null;
+  }
+  const flags = view.getUint8(1);
+  return {
+    serial: view.getUint32(2).toString(16).toUpperCase().padStart(8, '0'),
+    setupState: flags & FLAG_WIFI_CONFIGURED ? 'configured' : 'unconfigured',
+    paired: (flags & FLAG_PAIRED) !== 0,
+  };
+}
+
+/** Decodes manufacturer data; returns `null` when it belongs to another company or is malformed. */
+export function parseManufacturerData(data: Uint8Array): SpeakerAdvertisement | null {
+  if (data.length < 2) {
+    return null;
+  }
+  const companyId = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint16(0, true);
+  return companyId === SPEAKER_COMPANY_ID ? parseAdvertisementPayload(data.subarray(2)) : null;
+}
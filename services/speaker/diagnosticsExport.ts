@@ -0,0 +1,71 @@
+import Constants from 'expo-constants';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+
+import { UserFacingError } from '@/services/speaker/errors';
+import { eventLog, LogDetails, LogEntry } from '@/services/speaker/eventLog';
+
+export type ExportFormat = 'json' | 'text';
+
+/** Local time of day with milliseconds, e.g. `14:03:27.512`. */
+export function formatLogTime(time: number) {
+  const date = new Date(time);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const seconds = `${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${seconds}`;
+}
+
+export function formatLogDetails(details: LogDetails) {
+  return Object.entries(details)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? JSON.stringify(value) : value}`)
+    .join(' ');
+}
+
+/** One line per entry, with the full date so lines can be matched against the speaker's logs. */
+export function formatLogEntry(entry: LogEntry) {
+  const parts = [
+    new Date(entry.time).toISOString(),
+    entry.level.toUpperCase().padEnd(5),
+    `[${entry.category}]`,
+    entry.deviceId && `(${entry.deviceId})`,
+    entry.message,
+    entry.details && formatLogDetails(entry.details),
+  ];
+  return parts.filter(Boolean).join(' ');
+}
+
+function describeApp() {
+  return {
+    exportedAt: new Date().toISOString(),
+    appVersion: Constants.expoConfig?.version ?? null,
+    platform: Platform.OS,
+    osVersion: String(Platform.Version),
+  };
+}
+
+/**
+ * Writes the whole event log, whatever the diagnostics screen is filtering, to a file
+ * in the cache directory and opens the share sheet for it.
+ */
+export async function shareEventLog(format: ExportFormat) {
+  if (!FileSystem.cacheDirectory || !(await Sharing.isAvailableAsync())) {
+    throw new UserFacingError('Sharing files is not available on this device.');
+  }
+
+  const app = describeApp();
+  const entries = eventLog.getEntries();
+  const json = format === 'json';
+  const contents = json
+    ? JSON.stringify({ ...app, entries }, null, 2)
+    : [...Object.entries(app).map(([key, value]) => `${key}: ${value}`), '', ...entries.map(formatLogEntry)].join('\n');
+  const stamp = app.exportedAt.replace(/[:.]/g, '-');
+  const uri = `${FileSystem.cacheDirectory}speaker-diagnostics-${stamp}.${json ? 'json' : 'txt'}`;
+
+  await FileSystem.writeAsStringAsync(uri, contents);
+  await Sharing.shareAsync(uri, {
+    dialogTitle: 'Share diagnostics',
+    mimeType: json ? 'application/json' : 'text/plain',
+    UTI: json ? 'public.json' : 'public.plain-text',
+  });
+}
@@ -0,0 +1,237 @@
+import { Platform } from 'react-native';
+import { BleAndroidErrorCode, BleATTErrorCode, BleError, BleErrorCode, BleIOSErrorCode } from 'react-native-ble-plx';
+
+import { CommandCancelledError, CommandTimeoutError } from '@/services/speaker/CommandQueue';
+import { errorDetails, eventLog } from '@/services/speaker/eventLog';
+import { ProtocolError, ProtocolErrorCode } from '@/services/speaker/protocol';
+
+/** What went wrong, in terms a user can act on. */
+export type SpeakerErrorKind =
+  | 'permissionDenied'
+  | 'bluetoothOff'
+  | 'bluetoothUnsupported'
+  | 'outOfRange'
+  | 'gattBusy'
+  | 'authFailed'
+  | 'rejected'
+  | 'incompatible'
+  | 'cancelled'
+  | 'notPicked'
+  | 'unknown';
+
+/** What the user can do about it; the UI turns each into a button. */
+export type SuggestedAction = 'openSettings' | 'enableBluetooth' | 'moveCloser' | 'retry' | 'pair';
+
+export type SpeakerError = {
+  kind: SpeakerErrorKind;
+  title: string;
+  /** User-facing explanation; never a raw native message. */
+  message: string;
+  action: SuggestedAction | null;
+  /** Whether trying again without the user changing anything might succeed. */
+  retryable: boolean;
+};
+
+const CATEGORIES: { [K in SpeakerErrorKind]: Omit<SpeakerError, 'kind'> } = {
+  permissionDenied: {
+    title: 'Bluetooth permission needed',
+    message: 'Allow the app to use Bluetooth (and location, on older Android versions) in Settings.',
+    action: 'openSettings',
+    retryable: false,
+  },
+  bluetoothOff: {
+    title: 'Bluetooth is off',
+    message: 'Turn on Bluetooth to find and control your speakers.',
+    action: 'enableBluetooth',
+    retryable: false,
+  },
+  bluetoothUnsupported: {
+    title: 'Bluetooth not supported',
+    message:
+      Platform.OS === 'web'
+        ? 'This browser does not support Web Bluetooth. Use Chrome or Edge, on a page served over HTTPS.'
+        : 'This device does not support Bluetooth Low Energy.',
+    action: null,
+    retryable: false,
+  },
+  outOfRange: {
+    title: 'Speaker out of reach',
+    message: 'The speaker did not respond. Make sure it is switched on and move closer to it.',
+    action: 'moveCloser',
+    retryable: true,
+  },
+  gattBusy: {
+    title: 'Bluetooth is busy',
+    message: 'The phone or the speaker is busy with another Bluetooth operation. Try again in a moment.',
+    action: 'retry',
+    retryable: true,
+  },
+  authFailed: {
+    title: 'Pairing needed',
+    message: 'The speaker did not accept this phone. Pair with it again using the code it shows.',
+    action: 'pair',
+    retryable: false,
+  },
+  rejected: {
+    title: 'Speaker refused',
+    message: 'The speaker did not accept the value.',
+    action: null,
+    retryable: false,
+  },
+  incompatible: {
+    title: 'Speaker not compatible',
+    message: "The speaker's software does not support this. Update its firmware and try again.",
+    action: null,
+    retryable: false,
+  },
+  cancelled: {
+    title: 'Cancelled',
+    message: 'The operation was cancelled.',
+    action: null,
+    retryable: false,
+  },
+  notPicked: {
+    title: 'Scan for the speaker',
+    message: 'The browser only connects to speakers picked since the page loaded. Scan and pick it again.',
+    action: null,
+    retryable: false,
+  },
+  unknown: {
+    title: 'Something went wrong',
+    message: 'An unexpected Bluetooth error occurred. Try again.',
+    action: 'retry',
+    retryable: true,
+  },
+};
+
+const PROTOCOL_KINDS: { [C in ProtocolErrorCode]: SpeakerErrorKind } = {
+  // A garbled exchange, which CommandQueue already retries.
+  MALFORMED_FRAME: 'unknown',
+  UNSUPPORTED_VERSION: 'incompatible',
+  UNKNOWN_TYPE: 'incompatible',
+  INVALID_PAYLOAD: 'rejected',
+  REJECTED: 'rejected',
+  UNAUTHENTICATED: 'authFailed',
+  INTERNAL: 'unknown',
+};
+
+const BLE_KINDS: Partial<Record<BleErrorCode, SpeakerErrorKind>> = {
+  [BleErrorCode.BluetoothUnauthorized]: 'permissionDenied',
+  [BleErrorCode.LocationServicesDisabled]: 'permissionDenied',
+  [BleErrorCode.BluetoothPoweredOff]: 'bluetoothOff',
+  [BleErrorCode.BluetoothResetting]: 'bluetoothOff',
+  [BleErrorCode.BluetoothInUnknownState]: 'bluetoothOff',
+  [BleErrorCode.BluetoothManagerDestroyed]: 'bluetoothOff',
+  [BleErrorCode.BluetoothUnsupported]: 'bluetoothUnsupported',
+  [BleErrorCode.OperationTimedOut]: 'outOfRange',
+  [BleErrorCode.DeviceConnectionFailed]: 'outOfRange',
+  [BleErrorCode.DeviceDisconnected]: 'outOfRange',
+  [BleErrorCode.DeviceNotFound]: 'outOfRange',
+  [BleErrorCode.DeviceNotConnected]: 'outOfRange',
+  [BleErrorCode.OperationStartFailed]: 'gattBusy',
+  [BleErrorCode.DeviceAlreadyConnected]: 'gattBusy',
+  [BleErrorCode.ScanStartFailed]: 'gattBusy',
+  [BleErrorCode.ServiceNotFound]: 'incompatible',
+  [BleErrorCode.CharacteristicNotFound]: 'incompatible',
+  [BleErrorCode.OperationCancelled]: 'cancelled',
+};
+
+// The ATT and platform codes behind a generic code such as CharacteristicWriteFailed say more.
+const ATT_KINDS: Partial<Record<BleATTErrorCode, SpeakerErrorKind>> = {
+  [BleATTErrorCode.InsufficientAuthentication]: 'authFailed',
+  [BleATTErrorCode.InsufficientAuthorization]: 'authFailed',
+  [BleATTErrorCode.InsufficientEncryption]: 'authFailed',
+  [BleATTErrorCode.InsufficientEncryptionKeySize]: 'authFailed',
+  [BleATTErrorCode.ReadNotPermitted]: 'rejected',
+  [BleATTErrorCode.WriteNotPermitted]: 'rejected',
+  [BleATTErrorCode.InvalidAttributeValueLength]: 'rejected',
+  [BleATTErrorCode.PrepareQueueFull]: 'gattBusy',
+  [BleATTErrorCode.InsufficientResources]: 'gattBusy',
+};
+
+const ANDROID_KINDS: Partial<Record<BleAndroidErrorCode, SpeakerErrorKind>> = {
+  [BleAndroidErrorCode.Busy]: 'gattBusy',
+  [BleAndroidErrorCode.NoResources]: 'gattBusy',
+  [BleAndroidErrorCode.AuthFail]: 'authFailed',
+  // GATT_ERROR (133), almost always a connection that timed out or dropped.
+  [BleAndroidErrorCode.Error]: 'outOfRange',
+};
+
+const IOS_KINDS: Partial<Record<BleIOSErrorCode, SpeakerErrorKind>> = {
+  [BleIOSErrorCode.ConnectionTimeout]: 'outOfRange',
+  [BleIOSErrorCode.PeripheralDisconnected]: 'outOfRange',
+  [BleIOSErrorCode.ConnectionFailed]: 'outOfRange',
+  [BleIOSErrorCode.NotConnected]: 'outOfRange',
+  [BleIOSErrorCode.ConnectionLimitReached]: 'gattBusy',
+};
+
+// Web Bluetooth fails with DOMExceptions, told apart by name.
+const WEB_BLUETOOTH_KINDS: Partial<Record<string, SpeakerErrorKind>> = {
+  NotSupportedError: 'bluetoothUnsupported',
+  SecurityError: 'permissionDenied',
+  NotAllowedError: 'permissionDenied',
+  NetworkError: 'outOfRange',
+  InvalidStateError: 'outOfRange',
+  NotFoundError: 'incompatible',
+  AbortError: 'cancelled',
+  // Raised by WebBluetoothTransport for a speaker the browser has not let it use yet.
+  NotPickedError: 'notPicked',
+};
+
+function bleErrorKind(error: BleError): SpeakerErrorKind {
+  return (
+    (error.attErrorCode !== null ? ATT_KINDS[error.attErrorCode] : undefined) ??
+    (error.androidErrorCode !== null ? ANDROID_KINDS[error.androidErrorCode] : undefined) ??
+    (error.iosErrorCode !== null ? IOS_KINDS[error.iosErrorCode] : undefined) ??
+    BLE_KINDS[error.errorCode] ??
+    'unknown'
+  );
+}
+
+/**
+ * An error the app raises with a message written for the user, such as asking them to
+ * pair first. `describeError` shows its message as is; other errors only get the
+ * generic copy of their category.
+ */
+export class UserFacingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserFacingError';
+  }
+}
+
+/** The category of `kind`, for failures that are not exceptions, such as denied permissions. */
+export function speakerError(kind: SpeakerErrorKind, message?: string): SpeakerError {
+  const category = CATEGORIES[kind];
+  return { kind, ...category, message: message ?? category.message };
+}
+
+/**
+ * Maps any error from the BLE stack or the speaker protocol to a `SpeakerError`.
+ * Messages of `UserFacingError`s are kept, as is the speaker's own reason for refused
+ * requests. Anything else unexpected is logged and shown with the generic copy, since
+ * native and storage messages mean nothing to users.
+ */
+export function describeError(error: unknown): SpeakerError {
+  if (error instanceof BleError) {
+    return speakerError(bleErrorKind(error));
+  }
+  if (typeof DOMException !== 'undefined' && error instanceof DOMException && WEB_BLUETOOTH_KINDS[error.name]) {
+    return speakerError(WEB_BLUETOOTH_KINDS[error.name]!);
+  }
+  if (error instanceof ProtocolError) {
+    const kind = PROTOCOL_KINDS[error.code];
+    return speakerError(kind, kind === 'rejected' ? error.message : undefined);
+  }
+  if (error instanceof CommandTimeoutError) {
+    return speakerError('outOfRange');
+  }
+  if (error instanceof CommandCancelledError) {
+    return speakerError('outOfRange', 'The connection to the speaker was lost.');
+  }
+  if (error instanceof UserFacingError) {
+    return speakerError('unknown', error.message);
+  }
+  eventLog.warn('connection', 'Unexpected error', errorDetails(error));
+  return speakerError('unknown');
+}
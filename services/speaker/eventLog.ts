@@ -0,0 +1,241 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { ProtocolError } from '@/services/speaker/protocol';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/** What part of the BLE stack an entry is about. */
+export type LogCategory = 'adapter' | 'scan' | 'connection' | 'gatt' | 'protocol' | 'security' | 'firmware';
+
+export const LOG_CATEGORIES: LogCategory[] = [
+  'adapter',
+  'scan',
+  'connection',
+  'gatt',
+  'protocol',
+  'security',
+  'firmware',
+];
+
+export type LogValue = string | number | boolean | null;
+
+export type LogDetails = Record<string, LogValue>;
+
+/** Details of a new entry; `deviceId` becomes the entry's own field. */
+export type LogInput = LogDetails & { deviceId?: string };
+
+export type LogEntry = {
+  /** Increases with every entry, also across launches. */
+  id: number;
+  time: number;
+  level: LogLevel;
+  category: LogCategory;
+  /** Speaker the entry is about, if any. */
+  deviceId: string | null;
+  message: string;
+  details: LogDetails | null;
+};
+
+type Listener = () => void;
+
+const STORAGE_KEY = 'diagnostics.eventLog';
+// Oldest entries are dropped beyond this, so the log stays small enough to persist and share.
+const DEFAULT_CAPACITY = 2000;
+// Debug entries (every read, write and notification) have a ring of their own, so a burst
+// of them cannot push out the connection history and errors.
+const DEFAULT_DEBUG_CAPACITY = 300;
+// Entries are written to storage in batches, at most this often.
+const SAVE_DELAY_MS = 2000;
+
+export function isAtLeast(level: LogLevel, minimum: LogLevel) {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+}
+
+/**
+ * Flattens an error into log details. react-native-ble-plx errors carry numeric codes
+ * (`BleErrorCode`, plus the ATT and platform codes behind them) that say far more than
+ * their message, and protocol errors carry the speaker's error code.
+ */
+export function errorDetails(error: unknown): LogDetails {
+  if (!(error instanceof Error)) {
+    return { error: String(error) };
+  }
+  const details: LogDetails = { error: error.message, errorName: error.name };
+  if (error instanceof ProtocolError) {
+    details.protocolCode = error.code;
+  }
+  const fields = error as unknown as Record<string, unknown>;
+  for (const key of ['errorCode', 'attErrorCode', 'iosErrorCode', 'androidErrorCode', 'reason']) {
+    const value = fields[key];
+    if (typeof value === 'number' || (typeof value === 'string' && value)) {
+      details[key] = value;
+    }
+  }
+  return details;
+}
+
+/** Fixed-size buffer that overwrites its oldest item once full. */
+class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+
+  constructor(private readonly capacity: number) {}
+
+  push(item: T) {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.start] = item;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /** The items, oldest first. */
+  toArray() {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+
+  clear() {
+    this.items = [];
+    this.start = 0;
+  }
+}
+
+/** Merges two lists of entries that are each sorted by id. */
+function mergeById(a: LogEntry[], b: LogEntry[]) {
+  const merged: LogEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    merged.push(j >= b.length || (i < a.length && a[i].id < b[j].id) ? a[i++] : b[j++]);
+  }
+  return merged;
+}
+
+/**
+ * Structured, timestamped record of what the BLE stack did, kept as a ring buffer that
+ * is persisted across launches so it can be looked at after the fact, e.g. when a user
+ * reports that a speaker would not connect. Entries of level `info` and above are
+ * echoed to the console in development builds.
+ *
+ * State is exposed like the registry's, as a snapshot plus a subscribe function.
+ */
+export class EventLog {
+  private readonly entries: RingBuffer<LogEntry>;
+  private readonly debugEntries: RingBuffer<LogEntry>;
+  // Rebuilt on the first read after a change, so logging itself does not copy the log.
+  private snapshot: LogEntry[] | null = [];
+  private listeners = new Set<Listener>();
+  private nextId = 1;
+  private restored: Promise<void> | null = null;
+  private saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly storageKey: string,
+    capacity = DEFAULT_CAPACITY,
+    debugCapacity = DEFAULT_DEBUG_CAPACITY
+  ) {
+    this.entries = new RingBuffer(capacity);
+    this.debugEntries = new RingBuffer(debugCapacity);
+  }
+
+  /** All entries, oldest first. The array is replaced, not changed, when entries are added. */
+  getEntries = () => {
+    this.snapshot ??= mergeById(this.entries.toArray(), this.debugEntries.toArray());
+    return this.snapshot;
+  };
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Loads the entries of earlier launches in front of the ones recorded since. Only
+   * the first call does anything.
+   */
+  restore() {
+    this.restored ??= AsyncStorage.getItem(this.storageKey)
+      .then((stored) => {
+        const previous = stored ? (JSON.parse(stored) as LogEntry[]) : [];
+        if (previous.length === 0) return;
+        const lastId = previous[previous.length - 1].id;
+        const current = this.getEntries().map((entry, index) => ({ ...entry, id: lastId + index + 1 }));
+        this.nextId = lastId + current.length + 1;
+        this.replace([...previous, ...current]);
+      })
+      .catch((error) => console.error('Failed to restore the event log:', error));
+    return this.restored;
+  }
+
+  log(level: LogLevel, category: LogCategory, message: string, details: LogInput = {}) {
+    const { deviceId = null, ...rest } = details;
+    const entry: LogEntry = {
+      id: this.nextId++,
+      time: Date.now(),
+      level,
+      category,
+      deviceId,
+      message,
+      details: Object.keys(rest).length > 0 ? rest : null,
+    };
+    if (__DEV__ && level !== 'debug') {
+      console[level === 'info' ? 'log' : level](`[${category}] ${message}`, entry.details ?? '');
+    }
+    (level === 'debug' ? this.debugEntries : this.entries).push(entry);
+    this.changed();
+  }
+
+  debug(category: LogCategory, message: string, details?: LogInput) {
+    this.log('debug', category, message, details);
+  }
+
+  info(category: LogCategory, message: string, details?: LogInput) {
+    this.log('info', category, message, details);
+  }
+
+  warn(category: LogCategory, message: string, details?: LogInput) {
+    this.log('warn', category, message, details);
+  }
+
+  /** Records a failure together with whatever codes `error` carries. */
+  error(category: LogCategory, message: string, error: unknown, details: LogInput = {}) {
+    this.log('error', category, message, { ...details, ...errorDetails(error) });
+  }
+
+  clear() {
+    this.replace([]);
+  }
+
+  private replace(entries: LogEntry[]) {
+    this.entries.clear();
+    this.debugEntries.clear();
+    entries.forEach((entry) => (entry.level === 'debug' ? this.debugEntries : this.entries).push(entry));
+    this.changed();
+  }
+
+  private changed() {
+    this.snapshot = null;
+    this.listeners.forEach((listener) => listener());
+    this.scheduleSave();
+  }
+
+  private scheduleSave() {
+    if (this.saveTimeout) return;
+    this.saveTimeout = setTimeout(async () => {
+      // Saving before the earlier entries are back would overwrite them.
+      await this.restored;
+      this.saveTimeout = null;
+      AsyncStorage.setItem(this.storageKey, JSON.stringify(this.getEntries())).catch((error) =>
+        console.error('Failed to save the event log:', error)
+      );
+    }, SAVE_DELAY_MS);
+  }
+}
+
+/** The app's BLE event log, shared by the transport, the connections and the diagnostics screen. */
+export const eventLog = new EventLog(STORAGE_KEY);
@@ -0,0 +1,77 @@
+/**
+ * Firmware image transfer format. Images are sent to the speaker's firmware
+ * characteristic in blocks, each prefixed with its offset in the image and a CRC-32
+ * of its data, so the speaker can drop damaged or out-of-order blocks and report how
+ * far it got. The SHA-256 of the whole image travels in the sealed `firmwareBegin`
+ * request, and the speaker checks it before installing anything.
+ *
+ * Shared with the Node peripheral, like the protocol module.
+ */
+
+/** Offset and CRC-32, both 32-bit big-endian. */
+export const FIRMWARE_BLOCK_HEADER_SIZE = 8;
+
+/** Largest image the speaker accepts. */
+export const MAX_FIRMWARE_SIZE = 16 * 1024 * 1024;
+
+export type FirmwareBlock = {
+  offset: number;
+  data: Uint8Array;
+};
+
+/** `major.minor.patch`, as the speaker reports its version. */
+export const FIRMWARE_VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+
+/** Orders two versions; negative when `a` is older than `b`. */
+export function compareVersions(a: string, b: string) {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/** CRC-32 as used by zip and Ethernet. */
+export function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Encodes the block of `image` that starts at `offset` and carries at most `size` bytes of it. */
+export function encodeFirmwareBlock(image: Uint8Array, offset: number, size: number) {
+  const data = image.subarray(offset, offset + size);
+  const block = new Uint8Array(FIRMWARE_BLOCK_HEADER_SIZE + data.length);
+  const view = new DataView(block.buffer);
+  view.setUint32(0, offset);
+  view.setUint32(4, crc32(data));
+  block.set(data, FIRMWARE_BLOCK_HEADER_SIZE);
+  return block;
+}
+
+/** Decodes a block; returns `null` when it is truncated or its checksum does not match. */
+export function decodeFirmwareBlock(block: Uint8Array): FirmwareBlock | null {
+  if (block.length <= FIRMWARE_BLOCK_HEADER_SIZE) {
+    return null;
+  }
+  const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+  const data = block.subarray(FIRMWARE_BLOCK_HEADER_SIZE);
+  if (crc32(data) !== view.getUint32(4)) {
+    return null;
+  }
+  return { offset: view.getUint32(0), data };
+}
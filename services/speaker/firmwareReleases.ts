@@ -0,0 +1,75 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+
+import { UserFacingError } from '@/services/speaker/errors';
+import { FIRMWARE_VERSION_PATTERN, MAX_FIRMWARE_SIZE } from '@/services/speaker/firmware';
+import { randomBytes } from '@/services/speaker/random';
+
+/** A firmware release as described by the update server's manifest. */
+export type FirmwareRelease = {
+  version: string;
+  /** Where the image can be downloaded. */
+  url: string;
+  size: number;
+  /** Hex SHA-256 of the image. */
+  sha256: string;
+  notes: string | null;
+};
+
+// Set EXPO_PUBLIC_FIRMWARE_MANIFEST_URL to the JSON manifest of the latest release to enable update checks.
+const MANIFEST_URL = process.env.EXPO_PUBLIC_FIRMWARE_MANIFEST_URL;
+
+function isFirmwareRelease(value: unknown): value is FirmwareRelease {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const release = value as Record<string, unknown>;
+  return (
+    typeof release.version === 'string' &&
+    FIRMWARE_VERSION_PATTERN.test(release.version) &&
+    typeof release.url === 'string' &&
+    typeof release.size === 'number' &&
+    release.size > 0 &&
+    release.size <= MAX_FIRMWARE_SIZE &&
+    typeof release.sha256 === 'string' &&
+    /^[0-9a-f]{64}$/.test(release.sha256) &&
+    (release.notes === null || release.notes === undefined || typeof release.notes === 'string')
+  );
+}
+
+export function isUpdateServerConfigured() {
+  return !!MANIFEST_URL;
+}
+
+export async function fetchLatestRelease(): Promise<FirmwareRelease> {
+  if (!MANIFEST_URL) {
+    throw new UserFacingError('No firmware update server is configured.');
+  }
+  const response = await fetch(MANIFEST_URL);
+  if (!response.ok) {
+    throw new UserFacingError(`Checking for updates failed with HTTP ${response.status}.`);
+  }
+  const manifest: unknown = await response.json();
+  if (!isFirmwareRelease(manifest)) {
+    throw new UserFacingError('The update server sent an invalid release manifest.');
+  }
+  return { ...manifest, notes: manifest.notes ?? null };
+}
+
+/** Downloads the image of `release` and checks it against the manifest. */
+export async function downloadRelease(release: FirmwareRelease) {
+  const response = await fetch(release.url);
+  if (!response.ok) {
+    throw new UserFacingError(`Downloading firmware ${release.version} failed with HTTP ${response.status}.`);
+  }
+  const image = new Uint8Array(await response.arrayBuffer());
+  if (image.length !== release.size || bytesToHex(sha256(image)) !== release.sha256) {
+    throw new UserFacingError(`The download of firmware ${release.version} is damaged.`);
+  }
+  return image;
+}
+
+/** Random bytes posing as an image, for trying updates against the mock speaker, which installs anything. */
+export function createTestImage(size = 64 * 1024) {
+  return randomBytes(size);
+}
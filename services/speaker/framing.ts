@@ -0,0 +1,108 @@
+/**
+ * Splits encoded protocol frames into chunks that fit a single ATT write or read
+ * and reassembles them on the other side.
+ *
+ * Each chunk starts with a three byte header: the message id, the chunk index and
+ * the total number of chunks in the message. Like the protocol itself this module
+ * is shared with the Node peripheral.
+ */
+import { ProtocolError } from '@/services/speaker/protocol';
+
+/** MTU every BLE link starts with before (or without) negotiation. */
+export const DEFAULT_MTU = 23;
+
+/** Bytes of every ATT packet taken by the opcode and attribute handle. */
+export const ATT_HEADER_SIZE = 3;
+
+export const CHUNK_HEADER_SIZE = 3;
+
+export const MAX_CHUNKS_PER_MESSAGE = 0xff;
+
+/** Number of payload bytes a single chunk can carry over a link with the given MTU. */
+export function chunkPayloadSize(mtu: number) {
+  return Math.max(mtu, DEFAULT_MTU) - ATT_HEADER_SIZE - CHUNK_HEADER_SIZE;
+}
+
+/** Returns the message id that follows `id`, wrapping within a single byte. */
+export function nextMessageId(id: number) {
+  return (id + 1) & 0xff;
+}
+
+export function splitIntoChunks(messageId: number, bytes: Uint8Array, mtu: number): Uint8Array[] {
+  const size = chunkPayloadSize(mtu);
+  const count = Math.max(1, Math.ceil(bytes.length / size));
+  if (count > MAX_CHUNKS_PER_MESSAGE) {
+    throw new ProtocolError('INVALID_PAYLOAD', `Message of ${bytes.length} bytes is too large to send.`);
+  }
+
+  const chunks: Uint8Array[] = [];
+  for (let index = 0; index < count; index++) {
+    const body = bytes.subarray(index * size, (index + 1) * size);
+    const chunk = new Uint8Array(CHUNK_HEADER_SIZE + body.length);
+    chunk[0] = messageId & 0xff;
+    chunk[1] = index;
+    chunk[2] = count;
+    chunk.set(body, CHUNK_HEADER_SIZE);
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+/**
+ * Collects the chunks of one message at a time. A chunk belonging to a new message
+ * discards whatever was buffered for the previous one, so a sender that gave up
+ * halfway never blocks the next message.
+ */
+export class ChunkAssembler {
+  private messageId: number | null = null;
+  private count = 0;
+  private parts: Uint8Array[] = [];
+
+  /** Adds a chunk and returns the complete message once its last chunk arrives. */
+  push(chunk: Uint8Array): Uint8Array | null {
+    if (chunk.length < CHUNK_HEADER_SIZE) {
+      this.reset();
+      throw new ProtocolError('MALFORMED_FRAME', 'Chunk is shorter than its header.');
+    }
+
+    const [messageId, index, count] = chunk;
+    if (count === 0 || index >= count) {
+      this.reset();
+      throw new ProtocolError('MALFORMED_FRAME', `Invalid chunk ${index} of ${count}.`);
+    }
+
+    if (index === 0) {
+      this.messageId = messageId;
+      this.count = count;
+      this.parts = [];
+    } else if (messageId !== this.messageId || count !== this.count || index !== this.parts.length) {
+      this.reset();
+      throw new ProtocolError('MALFORMED_FRAME', `Unexpected chunk ${index} of message ${messageId}.`);
+    }
+
+    this.parts.push(chunk.subarray(CHUNK_HEADER_SIZE));
+    if (this.parts.length < this.count) {
+      return null;
+    }
+
+    const message = concatBytes(this.parts);
+    this.reset();
+    return message;
+  }
+
+  reset() {
+    this.messageId = null;
+    this.count = 0;
+    this.parts = [];
+  }
+}
+
+function concatBytes(parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,83 @@
+import { Buffer } from 'buffer';
+
+import {
+  SPEAKER_CONTROL_CHARACTERISTIC_UUID,
+  SPEAKER_EVENTS_CHARACTERISTIC_UUID,
+  SPEAKER_SERVICE_UUID,
+} from '@/constants/Speaker';
+import { UserFacingError } from '@/services/speaker/errors';
+import { GattDescriptor } from '@/services/speaker/transport';
+
+/** Expands a 16-bit SIG-assigned UUID such as `2902` to the 128-bit form BLE stacks report. */
+export function fullUuid(shortUuid: string) {
+  return `0000${shortUuid.toLowerCase()}-0000-1000-8000-00805f9b34fb`;
+}
+
+export const USER_DESCRIPTION_DESCRIPTOR_UUID = fullUuid('2901');
+export const CLIENT_CONFIGURATION_DESCRIPTOR_UUID = fullUuid('2902');
+
+const KNOWN_UUIDS: Record<string, string> = {
+  [SPEAKER_SERVICE_UUID]: 'Speaker',
+  [SPEAKER_CONTROL_CHARACTERISTIC_UUID]: 'Speaker Control',
+  [SPEAKER_EVENTS_CHARACTERISTIC_UUID]: 'Speaker Events',
+  [fullUuid('1800')]: 'Generic Access',
+  [fullUuid('1801')]: 'Generic Attribute',
+  [fullUuid('180a')]: 'Device Information',
+  [fullUuid('180f')]: 'Battery',
+  [fullUuid('2a00')]: 'Device Name',
+  [fullUuid('2a01')]: 'Appearance',
+  [fullUuid('2a05')]: 'Service Changed',
+  [fullUuid('2a19')]: 'Battery Level',
+  [fullUuid('2a24')]: 'Model Number',
+  [fullUuid('2a25')]: 'Serial Number',
+  [fullUuid('2a26')]: 'Firmware Revision',
+  [fullUuid('2a27')]: 'Hardware Revision',
+  [fullUuid('2a29')]: 'Manufacturer Name',
+  [USER_DESCRIPTION_DESCRIPTOR_UUID]: 'User Description',
+  [CLIENT_CONFIGURATION_DESCRIPTOR_UUID]: 'Client Configuration',
+};
+
+/** Human-readable name of a well-known service, characteristic or descriptor, if there is one. */
+export function gattName(uuid: string): string | null {
+  return KNOWN_UUIDS[uuid.toLowerCase()] ?? null;
+}
+
+export function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(' ');
+}
+
+/** Parses hex such as `0a ff 10` or `0aff10`; throws if the text is not whole bytes of hex. */
+export function parseHex(text: string) {
+  const digits = text.replace(/\s+/g, '').replace(/^0x/i, '');
+  if (!/^([0-9a-f]{2})*$/i.test(digits)) {
+    throw new UserFacingError('Enter the value as pairs of hex digits, e.g. "0a ff".');
+  }
+  return Uint8Array.from(Buffer.from(digits, 'hex'));
+}
+
+export function encodeUtf8(text: string) {
+  return Uint8Array.from(Buffer.from(text, 'utf8'));
+}
+
+/** Decodes `bytes` as UTF-8 text, or returns `null` when they do not look like text. */
+export function decodeUtf8(bytes: Uint8Array): string | null {
+  const text = Buffer.from(bytes).toString('utf8');
+  // Replacement characters mean invalid UTF-8; control characters mean binary data.
+  // eslint-disable-next-line no-control-regex
+  return /[\ufffd\u0000-\u0008\u000e-\u001f]/.test(text) ? null : text;
+}
+
+/** Renders a descriptor value the way the Bluetooth specification defines it, where known. */
+export function describeDescriptor({ uuid, value }: GattDescriptor) {
+  if (!value) {
+    return 'not readable';
+  }
+  if (uuid === CLIENT_CONFIGURATION_DESCRIPTOR_UUID && value.length >= 1) {
+    const flags = [value[0] & 0x01 && 'notifications', value[0] & 0x02 && 'indications'].filter(Boolean);
+    return flags.length > 0 ? `${flags.join(' and ')} enabled` : 'disabled';
+  }
+  if (uuid === USER_DESCRIPTION_DESCRIPTOR_UUID) {
+    return Buffer.from(value).toString('utf8');
+  }
+  return decodeUtf8(value) ?? toHex(value);
+}
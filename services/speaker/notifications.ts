@@ -0,0 +1,77 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+import { eventLog } from '@/services/speaker/eventLog';
+import type { PermissionStatus } from '@/services/speaker/permissions';
+
+// Android groups notifications in channels the user can mute separately.
+const CHANNEL_ID = 'speaker-events';
+
+/** A local notification about one speaker; tapping it opens that speaker's screen. */
+export type SpeakerNotification = {
+  speakerId: string;
+  title: string;
+  body: string;
+};
+
+/** Shows notifications while the app is open as well, and creates the Android channel. Call once at startup. */
+export function configureNotifications() {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+  if (Platform.OS === 'android') {
+    Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Speaker events',
+      importance: Notifications.AndroidImportance.HIGH,
+    }).catch((error) => eventLog.error('adapter', 'Failed to create the notification channel', error));
+  }
+}
+
+function toStatus({ granted, canAskAgain }: Notifications.NotificationPermissionsStatus): PermissionStatus {
+  return granted ? 'granted' : canAskAgain ? 'denied' : 'blocked';
+}
+
+/**
+ * Whether the app may post notifications, without prompting; `null` where it cannot
+ * post any (see `notifications.web.ts`).
+ */
+export async function getNotificationPermission(): Promise<PermissionStatus | null> {
+  return toStatus(await Notifications.getPermissionsAsync());
+}
+
+export async function requestNotificationPermission(): Promise<PermissionStatus | null> {
+  return toStatus(await Notifications.requestPermissionsAsync());
+}
+
+/** Posts a notification right away. Does nothing if notifications are not allowed. */
+export async function showNotification({ speakerId, title, body }: SpeakerNotification) {
+  try {
+    await Notifications.scheduleNotificationAsync({
+      content: { title, body, data: { speakerId } },
+      trigger: Platform.OS === 'android' ? { channelId: CHANNEL_ID } : null,
+    });
+  } catch (error) {
+    eventLog.error('connection', 'Failed to show a notification', error, { deviceId: speakerId });
+  }
+}
+
+/**
+ * Calls `listener` with the speaker of each notification the user taps, including
+ * the one that launched the app. Returns a function that stops listening.
+ */
+export function onNotificationOpened(listener: (speakerId: string) => void) {
+  const handle = (response: Notifications.NotificationResponse | null) => {
+    const speakerId = response?.notification.request.content.data?.speakerId;
+    if (typeof speakerId === 'string') {
+      listener(speakerId);
+    }
+  };
+  handle(Notifications.getLastNotificationResponse());
+  const subscription = Notifications.addNotificationResponseReceivedListener(handle);
+  return () => subscription.remove();
+}
@@ -0,0 +1,21 @@
+import type { SpeakerNotification } from '@/services/speaker/notifications';
+import type { PermissionStatus } from '@/services/speaker/permissions';
+
+// expo-notifications cannot post local notifications in browsers, and a browser tab
+// does not keep speakers connected in the background anyway, so these do nothing.
+
+export function configureNotifications() {}
+
+export async function getNotificationPermission(): Promise<PermissionStatus | null> {
+  return null;
+}
+
+export async function requestNotificationPermission(): Promise<PermissionStatus | null> {
+  return null;
+}
+
+export async function showNotification(_notification: SpeakerNotification) {}
+
+export function onNotificationOpened(_listener: (speakerId: string) => void) {
+  return () => {};
+}
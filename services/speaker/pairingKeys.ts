@@ -0,0 +1,45 @@
+import { randomUUID } from 'expo-crypto';
+
+import { fromBase64, toBase64 } from '@/services/speaker/protocol';
+import { deleteSecureItem, getSecureItem, setSecureItem } from '@/services/speaker/secureStorage';
+
+const CLIENT_ID_KEY = 'speaker.clientId';
+
+// Secure store keys may only hold letters, digits, ".", "-" and "_"; Android device ids contain ":".
+function storageKey(deviceId: string) {
+  return `speaker.pairingKey.${deviceId.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+}
+
+/** Key shared with speaker `deviceId` when the app paired with it, otherwise `null`. */
+export async function loadPairingKey(deviceId: string) {
+  const stored = await getSecureItem(storageKey(deviceId));
+  return stored ? fromBase64(stored) : null;
+}
+
+export function savePairingKey(deviceId: string, key: Uint8Array) {
+  return setSecureItem(storageKey(deviceId), toBase64(key));
+}
+
+export function forgetPairingKey(deviceId: string) {
+  return deleteSecureItem(storageKey(deviceId));
+}
+
+let clientId: Promise<string> | null = null;
+
+/** Identifier speakers file this app's pairing under, created on first use. */
+export function getClientId() {
+  clientId ??= (async () => {
+    const stored = await getSecureItem(CLIENT_ID_KEY);
+    if (stored) {
+      return stored;
+    }
+    const id = randomUUID();
+    await setSecureItem(CLIENT_ID_KEY, id);
+    return id;
+  })().catch((error) => {
+    // Let the next caller try again.
+    clientId = null;
+    throw error;
+  });
+  return clientId;
+}
@@ -0,0 +1,103 @@
+import { Linking, Permission, PermissionsAndroid, Platform } from 'react-native';
+
+/** `blocked` means the system no longer asks; the user has to allow it in Settings. */
+export type PermissionStatus = 'granted' | 'denied' | 'blocked';
+
+/** A runtime permission BLE needs on this device, with why the app asks for it. */
+export type BluetoothPermission = {
+  permission: Permission;
+  title: string;
+  reason: string;
+  status: PermissionStatus;
+};
+
+type PermissionInfo = Omit<BluetoothPermission, 'status'>;
+
+// PermissionsAndroid.check cannot tell "denied" from "never ask again", so answers are kept for the session.
+const blocked = new Set<Permission>();
+
+function requiredPermissions(): PermissionInfo[] {
+  if (Platform.OS !== 'android') {
+    // iOS asks for Bluetooth access by itself; a refusal shows up as the Unauthorized adapter state.
+    return [];
+  }
+  if (parseInt(Platform.Version.toString(), 10) < 31) {
+    return [
+      {
+        permission: PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION,
+        title: 'Location',
+        reason:
+          'Android 11 and earlier only show nearby Bluetooth devices to apps with location access. ' +
+          'The app does not use your location; Location must also be switched on while scanning.',
+      },
+    ];
+  }
+  return [
+    {
+      permission: PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN,
+      title: 'Nearby devices: scan',
+      reason: 'Lets the app find speakers that are advertising nearby.',
+    },
+    {
+      permission: PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT,
+      title: 'Nearby devices: connect',
+      reason: 'Lets the app connect to your speakers and change their settings.',
+    },
+  ];
+}
+
+/** Lists the permissions BLE needs on this platform and their current status, without prompting. */
+export async function getBluetoothPermissions(): Promise<BluetoothPermission[]> {
+  return Promise.all(
+    requiredPermissions().map(async (info) => {
+      const granted = await PermissionsAndroid.check(info.permission);
+      if (granted) {
+        blocked.delete(info.permission);
+      }
+      const status: PermissionStatus = granted ? 'granted' : blocked.has(info.permission) ? 'blocked' : 'denied';
+      return { ...info, status };
+    })
+  );
+}
+
+/** Whether everything BLE needs on this platform is granted, without prompting. */
+export async function checkBluetoothPermissions() {
+  const permissions = await getBluetoothPermissions();
+  return permissions.every(({ status }) => status === 'granted');
+}
+
+/** Prompts for one permission; resolves to `blocked` when the system will not ask again. */
+export async function requestBluetoothPermission(permission: Permission): Promise<PermissionStatus> {
+  const result = await PermissionsAndroid.request(permission);
+  if (result === PermissionsAndroid.RESULTS.NEVER_ASK_AGAIN) {
+    blocked.add(permission);
+    return 'blocked';
+  }
+  return result === PermissionsAndroid.RESULTS.GRANTED ? 'granted' : 'denied';
+}
+
+/**
+ * Requests the runtime permissions needed to scan for and connect to BLE peripherals.
+ * Resolves to `true` when everything required on this platform was granted.
+ */
+export async function requestBluetoothPermissions() {
+  const permissions = await getBluetoothPermissions();
+  for (const { permission, status } of permissions) {
+    if (status !== 'granted' && (await requestBluetoothPermission(permission)) !== 'granted') {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function openAppSettings() {
+  return Linking.openSettings();
+}
+
+export function openBluetoothSettings() {
+  // iOS apps can only open their own settings page.
+  if (Platform.OS === 'android') {
+    return Linking.sendIntent('android.settings.BLUETOOTH_SETTINGS').catch(() => Linking.openSettings());
+  }
+  return Linking.openSettings();
+}
@@ -0,0 +1,20 @@
+import { BleManager } from 'react-native-ble-plx';
+
+import { SPEAKER_BLE_RESTORE_ID } from '@/constants/Speaker';
+import { BlePlxTransport } from '@/services/speaker/BlePlxTransport';
+import { eventLog } from '@/services/speaker/eventLog';
+import { SpeakerTransport } from '@/services/speaker/transport';
+
+/** The transport for real speakers on this platform; see `platformTransport.web.ts` for browsers. */
+export function createPlatformTransport(): SpeakerTransport {
+  // With a restore identifier, iOS keeps the speaker connections while the app is suspended and
+  // relaunches it in the background for their events; the registry then reconnects as usual.
+  const manager = new BleManager({
+    restoreStateIdentifier: SPEAKER_BLE_RESTORE_ID,
+    restoreStateFunction: (restored) => {
+      const count = restored?.connectedPeripherals.length ?? 0;
+      eventLog.info('adapter', `Relaunched in the background with ${count} connected speaker(s)`);
+    },
+  });
+  return new BlePlxTransport(manager);
+}
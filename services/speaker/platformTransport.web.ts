@@ -0,0 +1,7 @@
+import { SpeakerTransport } from '@/services/speaker/transport';
+import { WebBluetoothTransport } from '@/services/speaker/WebBluetoothTransport';
+
+/** Browsers reach speakers through Web Bluetooth; react-native-ble-plx has no web implementation. */
+export function createPlatformTransport(): SpeakerTransport {
+  return new WebBluetoothTransport();
+}
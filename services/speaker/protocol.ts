@@ -0,0 +1,532 @@
+/**
+ * Versioned message protocol spoken over the speaker's control characteristic.
+ *
+ * Every frame is a UTF-8 JSON envelope. Requests carry a type and a payload, and
+ * responses echo the request id so they can be matched to the request they answer.
+ * Events are pushed by the speaker over the events characteristic and carry no id.
+ * Once a secure session is up, all three travel inside sealed frames.
+ * This module has no React Native dependencies so the Node peripheral can share it.
+ */
+import { Buffer } from 'buffer';
+
+import { FIRMWARE_VERSION_PATTERN, MAX_FIRMWARE_SIZE } from '@/services/speaker/firmware';
+import { isSettingsPatch, isSpeakerSettings, SettingsPatch, SpeakerSettings } from '@/services/speaker/settings';
+
+export const PROTOCOL_VERSION = 1;
+
+/** Largest request id; ids wrap around to 1 after this. */
+export const MAX_REQUEST_ID = 0xffff;
+
+export type PlaybackState = 'playing' | 'paused' | 'stopped';
+
+/** Live state of the speaker that can change without the app asking. */
+export type SpeakerState = {
+  volume: number;
+  muted: boolean;
+  playback: PlaybackState;
+  source: string;
+};
+
+/** The parts of the live state the app can change, as the speaker's own buttons do. */
+export type StatePatch = Partial<Pick<SpeakerState, 'volume' | 'muted' | 'playback'>>;
+
+export type WifiNetwork = {
+  ssid: string;
+  /** Signal strength in dBm as seen by the speaker. */
+  rssi: number;
+  secure: boolean;
+};
+
+export type WifiJoinState = 'disconnected' | 'joining' | 'connected' | 'failed';
+
+export type WifiStatus = {
+  state: WifiJoinState;
+  ssid: string | null;
+  /** Address on the joined network, set once `state` is `connected`. */
+  ip: string | null;
+  /** Why joining failed, set once `state` is `failed`. */
+  reason: string | null;
+};
+
+/** An image the speaker is receiving; it is kept across disconnects so the transfer can resume. */
+export type FirmwareTransfer = {
+  version: string;
+  size: number;
+  /** Hex SHA-256 of the whole image. */
+  sha256: string;
+  /** Bytes received so far; the next block must start here. */
+  received: number;
+};
+
+export type AlarmKind = 'alarm' | 'timer';
+
+/** An alarm or timer set on the speaker going off. */
+export type AlarmEvent = {
+  kind: AlarmKind;
+  /** The name the user gave it, if any. */
+  label: string | null;
+};
+
+export type FirmwareInfo = {
+  version: string;
+  transfer: FirmwareTransfer | null;
+};
+
+type EmptyPayload = Record<string, never>;
+
+/** Byte lengths of the binary values the secure channel exchanges, sent as base64. */
+export const PAIRING_SHARE_LENGTH = 32;
+export const PAIRING_MAC_LENGTH = 32;
+export const SESSION_NONCE_LENGTH = 16;
+
+/** Payload sent with each request type. */
+export type RequestPayloads = {
+  ping: EmptyPayload;
+  /** Opens a pairing exchange; `share` is the app's CPace share. */
+  pairStart: { clientId: string; share: string };
+  /** Proves the app derived the same key; the speaker answers with its own proof. */
+  pairConfirm: { clientId: string; mac: string };
+  /** Starts an encrypted session for an app that is already paired. */
+  sessionStart: { clientId: string; nonce: string };
+  getSettings: EmptyPayload;
+  setSettings: SettingsPatch;
+  getState: EmptyPayload;
+  updateState: StatePatch;
+  wifiScan: EmptyPayload;
+  wifiConnect: { ssid: string; password: string };
+  getWifiStatus: EmptyPayload;
+  getFirmware: EmptyPayload;
+  /** Starts receiving an image, or resumes if the speaker already holds part of the same one. */
+  firmwareBegin: { version: string; size: number; sha256: string };
+  /** Verifies the received image and installs it; the speaker reboots right after answering. */
+  firmwareInstall: EmptyPayload;
+  /** Discards the image being received. */
+  firmwareAbort: EmptyPayload;
+  /** Makes the speaker chime and blink its LED so it can be told apart from others. */
+  identify: EmptyPayload;
+};
+
+/** Payload returned in a successful response to each request type. */
+export type ResponsePayloads = {
+  ping: { uptime: number };
+  pairStart: { share: string };
+  pairConfirm: { mac: string };
+  sessionStart: { nonce: string };
+  getSettings: SpeakerSettings;
+  /** The complete settings after the change. */
+  setSettings: SpeakerSettings;
+  getState: SpeakerState;
+  /** The complete state after the change. */
+  updateState: SpeakerState;
+  wifiScan: { networks: WifiNetwork[] };
+  /** Acknowledges the join attempt; progress follows as `wifiStatus` events. */
+  wifiConnect: WifiStatus;
+  getWifiStatus: WifiStatus;
+  getFirmware: FirmwareInfo;
+  firmwareBegin: FirmwareTransfer;
+  /** The version that will be running after the reboot. */
+  firmwareInstall: { version: string };
+  firmwareAbort: EmptyPayload;
+  /** How long the speaker keeps blinking. */
+  identify: { durationMs: number };
+};
+
+/** Payload pushed with each event type. */
+export type EventPayloads = {
+  stateChanged: SpeakerState;
+  wifiStatus: WifiStatus;
+  alarm: AlarmEvent;
+};
+
+export type RequestType = keyof RequestPayloads;
+export type EventType = keyof EventPayloads;
+
+export type ProtocolErrorCode =
+  | 'MALFORMED_FRAME'
+  | 'UNSUPPORTED_VERSION'
+  | 'UNKNOWN_TYPE'
+  | 'INVALID_PAYLOAD'
+  | 'REJECTED'
+  | 'UNAUTHENTICATED'
+  | 'INTERNAL';
+
+export type RequestFrame<T extends RequestType = RequestType> = {
+  v: typeof PROTOCOL_VERSION;
+  kind: 'request';
+  id: number;
+  type: T;
+  payload: RequestPayloads[T];
+};
+
+export type ResponseFrame<T extends RequestType = RequestType> = {
+  v: typeof PROTOCOL_VERSION;
+  kind: 'response';
+  id: number;
+} & (
+  | { ok: true; type: T; payload: ResponsePayloads[T] }
+  // Frames that could not be parsed are answered with id 0 and no type.
+  | { ok: false; type: T | null; error: { code: ProtocolErrorCode; message: string } }
+);
+
+export type EventFrame<T extends EventType = EventType> = {
+  v: typeof PROTOCOL_VERSION;
+  kind: 'event';
+  type: T;
+  payload: EventPayloads[T];
+};
+
+/** Which kind of frame a sealed frame carries; each one counts its sequence numbers separately. */
+export type SealedChannel = 'request' | 'response' | 'event';
+
+/** A request, response or event encrypted under the session key. See `secureChannel.ts`. */
+export type SealedFrame = {
+  v: typeof PROTOCOL_VERSION;
+  kind: 'sealed';
+  channel: SealedChannel;
+  /** Sequence number on `channel`, increasing by at least one per frame. */
+  seq: number;
+  /** Base64 ciphertext and authentication tag of the encoded inner frame. */
+  box: string;
+};
+
+export type Frame = RequestFrame | ResponseFrame | EventFrame | SealedFrame;
+
+export class ProtocolError extends Error {
+  constructor(
+    readonly code: ProtocolErrorCode,
+    message: string,
+    /** Id of the offending frame when it could be read, otherwise 0. */
+    readonly frameId = 0
+  ) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+/**
+ * Requests the speaker accepts without a secure session; everything else must be sealed.
+ * `identify` changes nothing and is needed to pick the right speaker before pairing.
+ */
+const UNSEALED_REQUEST_TYPES: readonly RequestType[] = ['ping', 'pairStart', 'pairConfirm', 'sessionStart', 'identify'];
+const SEALED_CHANNELS: readonly SealedChannel[] = ['request', 'response', 'event'];
+const WIFI_JOIN_STATES: readonly WifiJoinState[] = ['disconnected', 'joining', 'connected', 'failed'];
+const PLAYBACK_STATES: readonly PlaybackState[] = ['playing', 'paused', 'stopped'];
+const ALARM_KINDS: readonly AlarmKind[] = ['alarm', 'timer'];
+const ERROR_CODES: readonly ProtocolErrorCode[] = [
+  'MALFORMED_FRAME',
+  'UNSUPPORTED_VERSION',
+  'UNKNOWN_TYPE',
+  'INVALID_PAYLOAD',
+  'REJECTED',
+  'UNAUTHENTICATED',
+  'INTERNAL',
+];
+
+export function isRequestType(value: unknown): value is RequestType {
+  return REQUEST_TYPES.includes(value as RequestType);
+}
+
+export function isEventType(value: unknown): value is EventType {
+  return EVENT_TYPES.includes(value as EventType);
+}
+
+export function isUnsealedRequestType(type: RequestType) {
+  return UNSEALED_REQUEST_TYPES.includes(type);
+}
+
+export function toBase64(bytes: Uint8Array) {
+  return Buffer.from(bytes).toString('base64');
+}
+
+export function fromBase64(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value, 'base64'));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEmptyPayload(value: unknown) {
+  return isPlainObject(value) && Object.keys(value).length === 0;
+}
+
+function isSpeakerState(value: unknown): value is SpeakerState {
+  return (
+    isPlainObject(value) &&
+    typeof value.volume === 'number' &&
+    value.volume >= 0 &&
+    value.volume <= 100 &&
+    typeof value.muted === 'boolean' &&
+    PLAYBACK_STATES.includes(value.playback as PlaybackState) &&
+    typeof value.source === 'string'
+  );
+}
+
+const STATE_PATCH_KEYS = ['volume', 'muted', 'playback'];
+
+function isVolume(value: unknown) {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 100;
+}
+
+function isStatePatch(value: unknown): value is StatePatch {
+  if (!isPlainObject(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return (
+    keys.length > 0 &&
+    keys.every((key) => STATE_PATCH_KEYS.includes(key)) &&
+    (value.volume === undefined || isVolume(value.volume)) &&
+    (value.muted === undefined || typeof value.muted === 'boolean') &&
+    (value.playback === undefined || PLAYBACK_STATES.includes(value.playback as PlaybackState))
+  );
+}
+
+function isNullableString(value: unknown) {
+  return value === null || typeof value === 'string';
+}
+
+function isBase64(value: unknown): value is string {
+  // Round-tripping rejects characters Buffer would otherwise skip silently.
+  return typeof value === 'string' && value.length > 0 && toBase64(fromBase64(value)) === value;
+}
+
+function isBase64Bytes(value: unknown, length: number) {
+  return isBase64(value) && fromBase64(value).length === length;
+}
+
+function isClientId(value: unknown) {
+  return typeof value === 'string' && /^[A-Za-z0-9-]{1,64}$/.test(value);
+}
+
+function isFirmwareVersion(value: unknown): value is string {
+  return typeof value === 'string' && FIRMWARE_VERSION_PATTERN.test(value);
+}
+
+function isFirmwareImage(value: Record<string, unknown>) {
+  return (
+    isFirmwareVersion(value.version) &&
+    typeof value.size === 'number' &&
+    Number.isInteger(value.size) &&
+    value.size > 0 &&
+    value.size <= MAX_FIRMWARE_SIZE &&
+    typeof value.sha256 === 'string' &&
+    /^[0-9a-f]{64}$/.test(value.sha256)
+  );
+}
+
+function isFirmwareTransfer(value: unknown): value is FirmwareTransfer {
+  return (
+    isPlainObject(value) &&
+    isFirmwareImage(value) &&
+    typeof value.received === 'number' &&
+    Number.isInteger(value.received) &&
+    value.received >= 0 &&
+    value.received <= (value.size as number)
+  );
+}
+
+function isWifiNetwork(value: unknown): value is WifiNetwork {
+  return (
+    isPlainObject(value) &&
+    typeof value.ssid === 'string' &&
+    typeof value.rssi === 'number' &&
+    typeof value.secure === 'boolean'
+  );
+}
+
+function isWifiStatus(value: unknown): value is WifiStatus {
+  return (
+    isPlainObject(value) &&
+    WIFI_JOIN_STATES.includes(value.state as WifiJoinState) &&
+    isNullableString(value.ssid) &&
+    isNullableString(value.ip) &&
+    isNullableString(value.reason)
+  );
+}
+
+function isAlarmEvent(value: unknown): value is AlarmEvent {
+  return isPlainObject(value) && ALARM_KINDS.includes(value.kind as AlarmKind) && isNullableString(value.label);
+}
+
+const requestValidators: { [T in RequestType]: (payload: unknown) => boolean } = {
+  ping: isEmptyPayload,
+  pairStart: (payload) =>
+    isPlainObject(payload) && isClientId(payload.clientId) && isBase64Bytes(payload.share, PAIRING_SHARE_LENGTH),
+  pairConfirm: (payload) =>
+    isPlainObject(payload) && isClientId(payload.clientId) && isBase64Bytes(payload.mac, PAIRING_MAC_LENGTH),
+  sessionStart: (payload) =>
+    isPlainObject(payload) && isClientId(payload.clientId) && isBase64Bytes(payload.nonce, SESSION_NONCE_LENGTH),
+  getSettings: isEmptyPayload,
+  setSettings: isSettingsPatch,
+  getState: isEmptyPayload,
+  updateState: isStatePatch,
+  wifiScan: isEmptyPayload,
+  wifiConnect: (payload) =>
+    isPlainObject(payload) &&
+    typeof payload.ssid === 'string' &&
+    payload.ssid.length > 0 &&
+    payload.ssid.length <= 32 &&
+    typeof payload.password === 'string' &&
+    payload.password.length <= 63,
+  getWifiStatus: isEmptyPayload,
+  getFirmware: isEmptyPayload,
+  firmwareBegin: (payload) => isPlainObject(payload) && isFirmwareImage(payload),
+  firmwareInstall: isEmptyPayload,
+  firmwareAbort: isEmptyPayload,
+  identify: isEmptyPayload,
+};
+
+const responseValidators: { [T in RequestType]: (payload: unknown) => boolean } = {
+  ping: (payload) => isPlainObject(payload) && typeof payload.uptime === 'number',
+  pairStart: (payload) => isPlainObject(payload) && isBase64Bytes(payload.share, PAIRING_SHARE_LENGTH),
+  pairConfirm: (payload) => isPlainObject(payload) && isBase64Bytes(payload.mac, PAIRING_MAC_LENGTH),
+  sessionStart: (payload) => isPlainObject(payload) && isBase64Bytes(payload.nonce, SESSION_NONCE_LENGTH),
+  getSettings: isSpeakerSettings,
+  setSettings: isSpeakerSettings,
+  getState: isSpeakerState,
+  updateState: isSpeakerState,
+  wifiScan: (payload) =>
+    isPlainObject(payload) && Array.isArray(payload.networks) && payload.networks.every(isWifiNetwork),
+  wifiConnect: isWifiStatus,
+  getWifiStatus: isWifiStatus,
+  getFirmware: (payload) =>
+    isPlainObject(payload) &&
+    isFirmwareVersion(payload.version) &&
+    (payload.transfer === null || isFirmwareTransfer(payload.transfer)),
+  firmwareBegin: isFirmwareTransfer,
+  firmwareInstall: (payload) => isPlainObject(payload) && isFirmwareVersion(payload.version),
+  firmwareAbort: isEmptyPayload,
+  identify: (payload) => isPlainObject(payload) && typeof payload.durationMs === 'number' && payload.durationMs >= 0,
+};
+
+const eventValidators: { [T in EventType]: (payload: unknown) => boolean } = {
+  stateChanged: isSpeakerState,
+  wifiStatus: isWifiStatus,
+  alarm: isAlarmEvent,
+};
+
+// Taken from the validators, which the compiler checks are complete, so a new type cannot be left out.
+const REQUEST_TYPES = Object.keys(requestValidators) as RequestType[];
+const EVENT_TYPES = Object.keys(eventValidators) as EventType[];
+
+export function createRequest<T extends RequestType>(
+  id: number,
+  type: T,
+  payload: RequestPayloads[T]
+): RequestFrame<T> {
+  return { v: PROTOCOL_VERSION, kind: 'request', id, type, payload };
+}
+
+export function createResponse<T extends RequestType>(
+  request: RequestFrame<T>,
+  payload: ResponsePayloads[T]
+): ResponseFrame<T> {
+  return { v: PROTOCOL_VERSION, kind: 'response', id: request.id, type: request.type, ok: true, payload };
+}
+
+export function createErrorResponse(
+  id: number,
+  type: RequestType | null,
+  code: ProtocolErrorCode,
+  message: string
+): ResponseFrame {
+  return { v: PROTOCOL_VERSION, kind: 'response', id, type, ok: false, error: { code, message } };
+}
+
+export function createEvent<T extends EventType>(type: T, payload: EventPayloads[T]): EventFrame<T> {
+  return { v: PROTOCOL_VERSION, kind: 'event', type, payload };
+}
+
+/** Returns the request id that follows `id`, skipping 0 which is reserved for error responses. */
+export function nextRequestId(id: number) {
+  return id >= MAX_REQUEST_ID ? 1 : id + 1;
+}
+
+export function encodeFrame(frame: Frame): Uint8Array {
+  validateFrame(frame);
+  return Buffer.from(JSON.stringify(frame), 'utf8');
+}
+
+/**
+ * Parses and validates a frame. Throws a `ProtocolError` describing the first
+ * problem found, so callers can reply with a matching error response.
+ */
+export function decodeFrame(bytes: Uint8Array): Frame {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(bytes).toString('utf8'));
+  } catch {
+    throw new ProtocolError('MALFORMED_FRAME', 'Frame is not valid JSON.');
+  }
+  return validateFrame(parsed);
+}
+
+function validateFrame(value: unknown): Frame {
+  if (!isPlainObject(value)) {
+    throw new ProtocolError('MALFORMED_FRAME', 'Frame must be a JSON object.');
+  }
+  if (value.v !== PROTOCOL_VERSION) {
+    throw new ProtocolError('UNSUPPORTED_VERSION', `Unsupported protocol version: ${String(value.v)}.`);
+  }
+  if (value.kind === 'event') {
+    if (!isEventType(value.type)) {
+      throw new ProtocolError('UNKNOWN_TYPE', `Unknown event type: ${String(value.type)}.`);
+    }
+    if (!eventValidators[value.type](value.payload)) {
+      throw new ProtocolError('INVALID_PAYLOAD', `Invalid payload for "${value.type}" event.`);
+    }
+    return value as EventFrame;
+  }
+  if (value.kind === 'sealed') {
+    if (
+      SEALED_CHANNELS.includes(value.channel as SealedChannel) &&
+      typeof value.seq === 'number' &&
+      Number.isSafeInteger(value.seq) &&
+      value.seq > 0 &&
+      isBase64(value.box)
+    ) {
+      return value as SealedFrame;
+    }
+    throw new ProtocolError('MALFORMED_FRAME', 'Sealed frame must carry a channel, a sequence number and a box.');
+  }
+  if (typeof value.id !== 'number' || !Number.isInteger(value.id) || value.id < 0 || value.id > MAX_REQUEST_ID) {
+    throw new ProtocolError('MALFORMED_FRAME', 'Frame id must be an integer between 0 and 65535.');
+  }
+
+  if (value.kind === 'response' && value.ok === false) {
+    if (
+      (value.type === null || isRequestType(value.type)) &&
+      isPlainObject(value.error) &&
+      ERROR_CODES.includes(value.error.code as ProtocolErrorCode) &&
+      typeof value.error.message === 'string'
+    ) {
+      return value as ResponseFrame;
+    }
+    throw new ProtocolError('MALFORMED_FRAME', 'Error response must carry a code and a message.', value.id);
+  }
+
+  if (value.id === 0) {
+    throw new ProtocolError('MALFORMED_FRAME', 'Frame id 0 is reserved for error responses.', value.id);
+  }
+  if (!isRequestType(value.type)) {
+    throw new ProtocolError('UNKNOWN_TYPE', `Unknown message type: ${String(value.type)}.`, value.id);
+  }
+
+  const type = value.type;
+  if (value.kind === 'request') {
+    if (!requestValidators[type](value.payload)) {
+      throw new ProtocolError('INVALID_PAYLOAD', `Invalid payload for "${type}" request.`, value.id);
+    }
+    return value as RequestFrame;
+  }
+
+  if (value.kind === 'response' && value.ok === true) {
+    if (!responseValidators[type](value.payload)) {
+      throw new ProtocolError('INVALID_PAYLOAD', `Invalid payload for "${type}" response.`, value.id);
+    }
+    return value as ResponseFrame;
+  }
+
+  throw new ProtocolError('MALFORMED_FRAME', `Unknown frame kind: ${String(value.kind)}.`, value.id);
+}
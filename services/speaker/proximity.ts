@@ -0,0 +1,60 @@
+/**
+ * Turns signal strength into how far away a speaker is. RSSI depends on walls, bodies
+ * and antenna orientation as much as on distance, so the results are rough guides for
+ * walking towards a speaker, not measurements.
+ */
+
+/** How near the speaker is, from its smoothed signal strength. */
+export type ProximityLevel = 'immediate' | 'near' | 'far' | 'weak' | 'lost';
+
+/** Whether the signal got stronger or weaker over the last few seconds. */
+export type ProximityTrend = 'warmer' | 'colder' | 'steady';
+
+export type RssiSample = { rssi: number; at: number };
+
+// Weight of the newest reading. RSSI jumps by several dBm between readings.
+const RSSI_SMOOTHING = 0.25;
+
+// Signal strength one metre away, and how quickly it falls off indoors (2 in free space).
+const RSSI_AT_ONE_METRE = -59;
+const PATH_LOSS_EXPONENT = 2.5;
+
+const LEVEL_THRESHOLDS: [ProximityLevel, number][] = [
+  ['immediate', -55],
+  ['near', -70],
+  ['far', -85],
+];
+
+/** Window the trend is measured over, and the change that counts as a trend. */
+export const TREND_WINDOW_MS = 3000;
+const TREND_THRESHOLD_DBM = 3;
+
+/** Folds a new reading into the smoothed value; the first reading is taken as is. */
+export function smoothRssi(previous: number | null, reading: number) {
+  return previous === null ? reading : previous + RSSI_SMOOTHING * (reading - previous);
+}
+
+/** Approximate distance in metres. */
+export function estimateDistance(rssi: number) {
+  return 10 ** ((RSSI_AT_ONE_METRE - rssi) / (10 * PATH_LOSS_EXPONENT));
+}
+
+export function proximityLevel(rssi: number | null): ProximityLevel {
+  if (rssi === null) {
+    return 'lost';
+  }
+  return LEVEL_THRESHOLDS.find(([, threshold]) => rssi >= threshold)?.[0] ?? 'weak';
+}
+
+/** Compares the newest sample with the oldest one still inside `TREND_WINDOW_MS`. */
+export function proximityTrend(samples: RssiSample[]): ProximityTrend {
+  const latest = samples[samples.length - 1];
+  const oldest = latest && samples.find(({ at }) => latest.at - at <= TREND_WINDOW_MS);
+  if (!latest || !oldest) {
+    return 'steady';
+  }
+  const change = latest.rssi - oldest.rssi;
+  if (change >= TREND_THRESHOLD_DBM) return 'warmer';
+  if (change <= -TREND_THRESHOLD_DBM) return 'colder';
+  return 'steady';
+}
@@ -0,0 +1,5 @@
+/**
+ * Cryptographically secure random bytes. Node and browsers provide Web Crypto; React
+ * Native does not, so `random.native.ts` takes them from expo-crypto instead.
+ */
+export { randomBytes } from '@noble/hashes/utils';
@@ -0,0 +1,47 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = 'speaker.rememberedDevices';
+// Earlier versions remembered a single speaker under this key.
+const LEGACY_STORAGE_KEY = 'speaker.rememberedDevice';
+
+/** A speaker the user has connected to, kept so it can be reconnected without a scan. */
+export type RememberedDevice = {
+  id: string;
+  name: string | null;
+};
+
+export async function loadRememberedDevices(): Promise<RememberedDevice[]> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored) as RememberedDevice[];
+    }
+    const legacy = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+    return legacy ? [JSON.parse(legacy) as RememberedDevice] : [];
+  } catch (error) {
+    console.error('Failed to load remembered devices:', error);
+    return [];
+  }
+}
+
+// Updates run one after another so concurrent connects cannot overwrite each other's entry.
+let pendingUpdate: Promise<void> = Promise.resolve();
+
+function updateRememberedDevices(update: (devices: RememberedDevice[]) => RememberedDevice[]) {
+  const next = pendingUpdate.then(async () => {
+    const devices = update(await loadRememberedDevices());
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(devices));
+    await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+  });
+  pendingUpdate = next.catch(() => {});
+  return next;
+}
+
+/** Adds `device` to the remembered speakers, or updates its name if it is already there. */
+export function saveRememberedDevice(device: RememberedDevice) {
+  return updateRememberedDevices((devices) => [...devices.filter((d) => d.id !== device.id), device]);
+}
+
+export function forgetRememberedDevice(id: string) {
+  return updateRememberedDevices((devices) => devices.filter((d) => d.id !== id));
+}
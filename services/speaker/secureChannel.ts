@@ -0,0 +1,233 @@
+/**
+ * Application-layer security for the speaker protocol. The speaker's control
+ * characteristic is open to anyone in range, so the app and the speaker authenticate
+ * each other and encrypt their messages themselves rather than relying on BLE bonding.
+ *
+ * Pairing runs CPace, a password-authenticated key exchange, over ristretto255 with
+ * the code the speaker shows. Someone who records or intercepts the exchange cannot
+ * test guesses of the code offline; every guess costs a pairing attempt against the
+ * speaker, which limits them. Both ends keep the resulting pairing key.
+ *
+ * Each connection then starts a session whose key mixes the pairing key with a fresh
+ * nonce from each side. Frames are sealed with ChaCha20-Poly1305 under increasing
+ * sequence numbers, so a recorded frame can be replayed neither within its session
+ * nor into a later one. Like the protocol module this has no React Native
+ * dependencies so the Node peripheral can share it.
+ */
+import { chacha20poly1305 } from '@noble/ciphers/chacha';
+import { ristretto255, ristretto255_hasher } from '@noble/curves/ed25519';
+import { bytesToNumberLE, equalBytes } from '@noble/curves/utils';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256, sha512 } from '@noble/hashes/sha2';
+import { concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+
+import {
+  decodeFrame,
+  encodeFrame,
+  EventFrame,
+  fromBase64,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  RequestFrame,
+  ResponseFrame,
+  SealedChannel,
+  SealedFrame,
+  SESSION_NONCE_LENGTH,
+  toBase64,
+} from '@/services/speaker/protocol';
+import { randomBytes } from '@/services/speaker/random';
+
+/** Which end of the link a handshake or session belongs to. */
+export type PeerRole = 'app' | 'speaker';
+
+type RistrettoPoint = InstanceType<typeof ristretto255.Point>;
+
+export const PAIRING_CODE_LENGTH = 6;
+
+const KEY_LENGTH = 32;
+const CPACE_DST = 'KarolinaSpeaker-CPace-ristretto255';
+
+/**
+ * Returns the pairing code without the spaces and dashes it may be typed or encoded
+ * with, or `null` if it is not a six-digit code.
+ */
+export function normalizePairingCode(code: string): string | null {
+  const digits = code.replace(/[\s-]/g, '');
+  return new RegExp(`^\\d{${PAIRING_CODE_LENGTH}}$`).test(digits) ? digits : null;
+}
+
+/** A fresh random pairing code, as the speaker shows it. */
+export function generatePairingCode() {
+  // The modulo bias of 2^32 over 10^6 is far too small to help a guesser.
+  const value = randomBytes(4).reduce((sum, byte) => sum * 256 + byte, 0);
+  return String(value % 10 ** PAIRING_CODE_LENGTH).padStart(PAIRING_CODE_LENGTH, '0');
+}
+
+// Length-prefixes every part so that different splits of the same bytes hash differently.
+function transcript(...parts: Uint8Array[]) {
+  return concatBytes(...parts.flatMap((part) => [new Uint8Array([part.length]), part]));
+}
+
+function randomScalar() {
+  const { Fn } = ristretto255.Point;
+  for (;;) {
+    // 64 bytes reduced modulo the group order are uniform for all practical purposes.
+    const scalar = Fn.create(bytesToNumberLE(randomBytes(64)));
+    if (!Fn.is0(scalar)) {
+      return scalar;
+    }
+  }
+}
+
+/**
+ * One side of a CPace pairing exchange. Each side sends its `share`, passes the
+ * peer's share to `receive()` and then proves it knows the code by sending its
+ * `confirmation()`. The speaker checks the app's confirmation before sending its own,
+ * so an impostor on either end learns only whether its single guess was right.
+ */
+export class PairingHandshake {
+  /** This side's share, sent to the peer. */
+  readonly share: Uint8Array;
+
+  private readonly scalar = randomScalar();
+  private keys: { pairingKey: Uint8Array; confirmationKey: Uint8Array; shares: Uint8Array } | null = null;
+
+  /** `clientId` identifies the app to the speaker and binds the exchange to it. */
+  constructor(
+    private readonly role: PeerRole,
+    code: string,
+    private readonly clientId: string
+  ) {
+    // The ristretto hasher returns ristretto points; its type is the generic hash-to-curve point.
+    const generator = ristretto255_hasher.hashToCurve(transcript(utf8ToBytes(code), utf8ToBytes(clientId)), {
+      DST: CPACE_DST,
+    }) as unknown as RistrettoPoint;
+    this.share = generator.multiply(this.scalar).toBytes();
+  }
+
+  /** Combines the peer's share with this side's. Throws a `ProtocolError` if the share is unusable. */
+  receive(peerShare: Uint8Array) {
+    let shared: RistrettoPoint;
+    try {
+      shared = ristretto255.Point.fromHex(peerShare).multiply(this.scalar);
+    } catch {
+      throw new ProtocolError('INVALID_PAYLOAD', 'Pairing share is not a valid point.');
+    }
+    if (shared.is0()) {
+      throw new ProtocolError('INVALID_PAYLOAD', 'Pairing share is not a valid point.');
+    }
+
+    const [appShare, speakerShare] = this.role === 'app' ? [this.share, peerShare] : [peerShare, this.share];
+    const sessionKey = sha512(
+      transcript(utf8ToBytes('CPace-ISK'), utf8ToBytes(this.clientId), shared.toBytes(), appShare, speakerShare)
+    );
+    this.keys = {
+      pairingKey: hkdf(sha256, sessionKey, undefined, 'pairing key', KEY_LENGTH),
+      confirmationKey: hkdf(sha256, sessionKey, undefined, 'key confirmation', KEY_LENGTH),
+      shares: concatBytes(appShare, speakerShare),
+    };
+  }
+
+  /** Proof that this side derived the key, sent to the peer. */
+  confirmation() {
+    return this.mac(this.role);
+  }
+
+  /** Whether the peer's proof matches, i.e. the peer used the same code. */
+  verify(peerConfirmation: Uint8Array) {
+    return equalBytes(peerConfirmation, this.mac(this.role === 'app' ? 'speaker' : 'app'));
+  }
+
+  /** The long-term key both sides keep once the confirmations have been checked. */
+  get pairingKey() {
+    return this.requireKeys().pairingKey;
+  }
+
+  private mac(role: PeerRole) {
+    const { confirmationKey, shares } = this.requireKeys();
+    return hmac(sha256, confirmationKey, concatBytes(utf8ToBytes(role), shares));
+  }
+
+  private requireKeys() {
+    if (!this.keys) {
+      throw new Error('The peer share has not been received yet.');
+    }
+    return this.keys;
+  }
+}
+
+export function createSessionNonce() {
+  return randomBytes(SESSION_NONCE_LENGTH);
+}
+
+export function deriveSessionKey(pairingKey: Uint8Array, appNonce: Uint8Array, speakerNonce: Uint8Array) {
+  return hkdf(sha256, pairingKey, concatBytes(appNonce, speakerNonce), 'session key', KEY_LENGTH);
+}
+
+const CHANNEL_IDS: Record<SealedChannel, number> = { request: 1, response: 2, event: 3 };
+const SENDERS: Record<SealedChannel, PeerRole> = { request: 'app', response: 'speaker', event: 'speaker' };
+
+// Channel and sequence number make every nonce unique under a session key.
+function nonceFor(channel: SealedChannel, seq: number) {
+  const nonce = new Uint8Array(12);
+  const view = new DataView(nonce.buffer);
+  view.setUint8(0, CHANNEL_IDS[channel]);
+  view.setUint32(4, Math.floor(seq / 2 ** 32));
+  view.setUint32(8, seq >>> 0);
+  return nonce;
+}
+
+/**
+ * Seals outgoing frames and opens incoming ones for one end of an established
+ * session. Each channel counts its own sequence numbers because responses and events
+ * arrive over different characteristics and may interleave.
+ */
+export class SecureSession {
+  private readonly sent: Record<SealedChannel, number> = { request: 0, response: 0, event: 0 };
+  private readonly received: Record<SealedChannel, number> = { request: 0, response: 0, event: 0 };
+
+  constructor(
+    private readonly key: Uint8Array,
+    private readonly role: PeerRole
+  ) {}
+
+  seal(frame: RequestFrame | ResponseFrame | EventFrame): SealedFrame {
+    const channel = frame.kind;
+    if (SENDERS[channel] !== this.role) {
+      throw new Error(`The ${this.role} does not send ${channel} frames.`);
+    }
+    const seq = ++this.sent[channel];
+    const box = chacha20poly1305(this.key, nonceFor(channel, seq)).encrypt(encodeFrame(frame));
+    return { v: PROTOCOL_VERSION, kind: 'sealed', channel, seq, box: toBase64(box) };
+  }
+
+  /**
+   * Decrypts a frame sent by the peer. Throws a `ProtocolError` with code
+   * `UNAUTHENTICATED` when the frame was forged, altered or replayed.
+   */
+  open(sealed: SealedFrame): RequestFrame | ResponseFrame | EventFrame {
+    const { channel, seq } = sealed;
+    if (SENDERS[channel] === this.role) {
+      throw new ProtocolError('UNAUTHENTICATED', `Unexpected sealed ${channel} frame.`);
+    }
+    if (seq <= this.received[channel]) {
+      throw new ProtocolError('UNAUTHENTICATED', `Sealed ${channel} frame ${seq} was replayed.`);
+    }
+
+    let plaintext: Uint8Array;
+    try {
+      plaintext = chacha20poly1305(this.key, nonceFor(channel, seq)).decrypt(fromBase64(sealed.box));
+    } catch {
+      throw new ProtocolError('UNAUTHENTICATED', 'Sealed frame failed authentication.');
+    }
+    // Only authentic frames advance the counter, so forged ones cannot block real ones.
+    this.received[channel] = seq;
+
+    const frame = decodeFrame(plaintext);
+    if (frame.kind === 'sealed' || frame.kind !== channel) {
+      throw new ProtocolError('MALFORMED_FRAME', `Sealed ${channel} frame holds a ${frame.kind} frame.`);
+    }
+    return frame;
+  }
+}
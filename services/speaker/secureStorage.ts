@@ -0,0 +1,22 @@
+import * as SecureStore from 'expo-secure-store';
+
+// Reconnects can start while the phone is locked, so keys stay readable after the first unlock.
+const STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK,
+};
+
+/**
+ * Storage for secrets such as pairing keys: the Keychain on iOS and the Keystore on
+ * Android. Keys may only hold letters, digits, ".", "-" and "_".
+ */
+export function getSecureItem(key: string) {
+  return SecureStore.getItemAsync(key, STORE_OPTIONS);
+}
+
+export function setSecureItem(key: string, value: string) {
+  return SecureStore.setItemAsync(key, value, STORE_OPTIONS);
+}
+
+export function deleteSecureItem(key: string) {
+  return SecureStore.deleteItemAsync(key, STORE_OPTIONS);
+}
@@ -0,0 +1,17 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Browsers have no keychain, so secrets live in the site's local storage, readable by
+ * anyone using this browser profile. Pair from a browser only on a trusted computer.
+ */
+export function getSecureItem(key: string) {
+  return AsyncStorage.getItem(key);
+}
+
+export function setSecureItem(key: string, value: string) {
+  return AsyncStorage.setItem(key, value);
+}
+
+export function deleteSecureItem(key: string) {
+  return AsyncStorage.removeItem(key);
+}
@@ -0,0 +1,184 @@
+/**
+ * Typed model of the speaker's settings. The schema describes every setting once and
+ * drives both validation, on each end of the link, and the settings form. Like the
+ * protocol module it has no React Native dependencies.
+ */
+
+export const INPUT_SOURCES = ['bluetooth', 'wifi', 'aux', 'optical'] as const;
+export type InputSource = (typeof INPUT_SOURCES)[number];
+
+export type SpeakerSettings = {
+  name: string;
+  volume: number;
+  /** Equalizer gains in dB. */
+  eqBass: number;
+  eqMid: number;
+  eqTreble: number;
+  /** Input the speaker selects when it powers on. */
+  defaultInput: InputSource;
+  ledBrightness: number;
+  /** Minutes of silence before the speaker goes to standby; 0 disables standby. */
+  autoStandbyMinutes: number;
+  /** IANA time zone name, e.g. `Europe/Kyiv`. */
+  timezone: string;
+};
+
+export type SettingKey = keyof SpeakerSettings;
+export type SettingsPatch = Partial<SpeakerSettings>;
+
+export type SettingSection = 'general' | 'sound' | 'power';
+
+type FieldBase = {
+  label: string;
+  section: SettingSection;
+};
+
+export type SettingField =
+  | (FieldBase & { kind: 'text'; maxLength: number; pattern?: RegExp; hint?: string })
+  | (FieldBase & { kind: 'number'; min: number; max: number; step: number; unit?: string })
+  | (FieldBase & { kind: 'choice'; options: readonly string[] });
+
+export const SETTING_SECTIONS: readonly { id: SettingSection; title: string }[] = [
+  { id: 'general', title: 'General' },
+  { id: 'sound', title: 'Sound' },
+  { id: 'power', title: 'Lights & Power' },
+];
+
+const eqBand = (label: string): SettingField => ({
+  kind: 'number',
+  label,
+  section: 'sound',
+  min: -12,
+  max: 12,
+  step: 1,
+  unit: 'dB',
+});
+
+export const SPEAKER_SETTINGS_SCHEMA: { readonly [K in SettingKey]: SettingField } = {
+  name: { kind: 'text', label: 'Device name', section: 'general', maxLength: 32 },
+  timezone: {
+    kind: 'text',
+    label: 'Time zone',
+    section: 'general',
+    maxLength: 64,
+    pattern: /^(UTC|[A-Z][A-Za-z_]+(\/[A-Za-z0-9_+-]+){1,2})$/,
+    hint: 'Use a name such as Europe/Kyiv or UTC.',
+  },
+  volume: { kind: 'number', label: 'Volume', section: 'sound', min: 0, max: 100, step: 1, unit: '%' },
+  eqBass: eqBand('Bass'),
+  eqMid: eqBand('Mid'),
+  eqTreble: eqBand('Treble'),
+  defaultInput: { kind: 'choice', label: 'Default input', section: 'sound', options: INPUT_SOURCES },
+  ledBrightness: {
+    kind: 'number',
+    label: 'LED brightness',
+    section: 'power',
+    min: 0,
+    max: 100,
+    step: 5,
+    unit: '%',
+  },
+  autoStandbyMinutes: {
+    kind: 'number',
+    label: 'Auto-standby after',
+    section: 'power',
+    min: 0,
+    max: 240,
+    step: 5,
+    unit: 'min',
+  },
+};
+
+export const SETTING_KEYS = Object.keys(SPEAKER_SETTINGS_SCHEMA) as SettingKey[];
+
+export const DEFAULT_SPEAKER_SETTINGS: SpeakerSettings = {
+  name: 'Speaker',
+  volume: 50,
+  eqBass: 0,
+  eqMid: 0,
+  eqTreble: 0,
+  defaultInput: 'bluetooth',
+  ledBrightness: 60,
+  autoStandbyMinutes: 20,
+  timezone: 'UTC',
+};
+
+export function isSettingKey(key: string): key is SettingKey {
+  return Object.prototype.hasOwnProperty.call(SPEAKER_SETTINGS_SCHEMA, key);
+}
+
+/** Returns why `value` is not acceptable for setting `key`, or `null` when it is. */
+export function validateSetting(key: SettingKey, value: unknown): string | null {
+  const field = SPEAKER_SETTINGS_SCHEMA[key];
+  switch (field.kind) {
+    case 'text':
+      if (typeof value !== 'string' || value.trim().length === 0) {
+        return `${field.label} must not be empty.`;
+      }
+      if (value.length > field.maxLength) {
+        return `${field.label} must be at most ${field.maxLength} characters.`;
+      }
+      if (field.pattern && !field.pattern.test(value)) {
+        return field.hint ?? `${field.label} is not valid.`;
+      }
+      return null;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${field.label} must be a number.`;
+      }
+      if (value < field.min || value > field.max) {
+        return `${field.label} must be between ${field.min} and ${field.max}.`;
+      }
+      if ((value - field.min) % field.step !== 0) {
+        return `${field.label} must be in steps of ${field.step}.`;
+      }
+      return null;
+    case 'choice':
+      return field.options.includes(value as string)
+        ? null
+        : `${field.label} must be one of ${field.options.join(', ')}.`;
+  }
+}
+
+/** Validates every entry of `values`; unknown settings are errors. Returns the errors by key. */
+export function validateSettings(values: Record<string, unknown>) {
+  const errors: Record<string, string> = {};
+  Object.entries(values).forEach(([key, value]) => {
+    const error = isSettingKey(key) ? validateSetting(key, value) : `Unknown setting "${key}".`;
+    if (error) {
+      errors[key] = error;
+    }
+  });
+  return errors;
+}
+
+/** Whether `value` holds a valid value for every setting. Settings the app does not know are ignored. */
+export function isSpeakerSettings(value: unknown): value is SpeakerSettings {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  return SETTING_KEYS.every((key) => validateSetting(key, record[key]) === null);
+}
+
+/** Whether `value` is a non-empty set of valid changes to known settings. */
+export function isSettingsPatch(value: unknown): value is SettingsPatch {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).length > 0 &&
+    Object.keys(validateSettings(value as Record<string, unknown>)).length === 0
+  );
+}
+
+/** The settings in `edited` that differ from `current`. */
+export function changedSettings(current: SpeakerSettings, edited: SpeakerSettings): SettingsPatch {
+  const changes: Record<string, unknown> = {};
+  SETTING_KEYS.forEach((key) => {
+    if (edited[key] !== current[key]) {
+      changes[key] = edited[key];
+    }
+  });
+  return changes as SettingsPatch;
+}
@@ -0,0 +1,47 @@
+/**
+ * Setup links, printed as a QR code on the speaker's box or shown on its display:
+ *
+ *   karolinamobileapp://setup?serial=1A2B3C4D&name=Kitchen&code=123456
+ *
+ * The serial number picks the speaker out of the ones advertising nearby; the name is
+ * only shown while searching, and the optional pairing code saves typing it. Shared
+ * with the Node peripheral, which prints its own link.
+ */
+import { SERIAL_PATTERN } from '@/services/speaker/advertisement';
+import { normalizePairingCode } from '@/services/speaker/secureChannel';
+
+/** Must match `scheme` in app.json. */
+export const APP_SCHEME = 'karolinamobileapp';
+
+const MAX_NAME_LENGTH = 32;
+
+export type SetupLink = {
+  serial: string;
+  name: string | null;
+  pairingCode: string | null;
+};
+
+type LinkParams = Record<string, string | string[] | undefined>;
+
+function single(value: string | string[] | undefined) {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** Reads the query parameters of a setup link; `null` when the serial number is missing or malformed. */
+export function parseSetupParams(params: LinkParams): SetupLink | null {
+  const serial = single(params.serial)?.trim().toUpperCase();
+  if (!serial || !SERIAL_PATTERN.test(serial)) {
+    return null;
+  }
+  const name = single(params.name)?.trim().slice(0, MAX_NAME_LENGTH) || null;
+  const code = single(params.code);
+  return { serial, name, pairingCode: code ? normalizePairingCode(code) : null };
+}
+
+export function createSetupLink({ serial, name, pairingCode }: SetupLink) {
+  // Spaces are escaped as %20 rather than +, which not every link parser decodes.
+  const query = Object.entries({ serial, name, code: pairingCode })
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value!)}`);
+  return `${APP_SCHEME}://setup?${query.join('&')}`;
+}
@@ -0,0 +1,107 @@
+/**
+ * The BLE operations the speaker connection needs, independent of the library that
+ * performs them. `BlePlxTransport` talks to real hardware through react-native-ble-plx;
+ * `FakeTransport` simulates speakers in memory.
+ *
+ * All binary values cross this boundary as raw bytes; encoding them for a particular
+ * native API is the transport's concern.
+ */
+
+/** Bluetooth adapter state, using the same values as react-native-ble-plx. */
+export type AdapterState =
+  | 'Unknown'
+  | 'Resetting'
+  | 'Unsupported'
+  | 'Unauthorized'
+  | 'PoweredOff'
+  | 'PoweredOn';
+
+/** One advertisement; a device scanned repeatedly is reported once per advertisement. */
+export type ScannedDevice = {
+  id: string;
+  name: string | null;
+  rssi: number | null;
+  /** Manufacturer specific data, starting with the little-endian company identifier. */
+  manufacturerData: Uint8Array | null;
+  /** Service data keyed by service UUID. */
+  serviceData: Record<string, Uint8Array> | null;
+};
+
+export type ConnectedDevice = {
+  id: string;
+  name: string | null;
+  /** MTU negotiated for the link. */
+  mtu: number;
+};
+
+export type ConnectOptions = {
+  requestMtu: number;
+};
+
+export type Unsubscribe = () => void;
+
+export type CharacteristicProperty = 'read' | 'write' | 'writeWithoutResponse' | 'notify' | 'indicate';
+
+export type GattDescriptor = {
+  uuid: string;
+  /** Value read during discovery, or `null` if it could not be read. */
+  value: Uint8Array | null;
+};
+
+export type GattCharacteristic = {
+  uuid: string;
+  serviceUuid: string;
+  properties: CharacteristicProperty[];
+  descriptors: GattDescriptor[];
+};
+
+export type GattService = {
+  uuid: string;
+  characteristics: GattCharacteristic[];
+};
+
+export interface SpeakerTransport {
+  /** Reports the adapter state, starting with the current one. */
+  onStateChange(listener: (state: AdapterState) => void): Unsubscribe;
+  /** Tells whether scanning and connecting are permitted, without prompting the user. */
+  checkPermissions(): Promise<boolean>;
+  /** Asks for whatever runtime permissions scanning and connecting need on this platform. */
+  requestPermissions(): Promise<boolean>;
+
+  /**
+   * Set where a scan opens a device chooser instead of listening, as in browsers: it
+   * must be started from a button press and reports the one device the user picks,
+   * however long that takes.
+   */
+  readonly scanOpensChooser?: boolean;
+  startScan(serviceUuids: string[], listener: (error: Error | null, device: ScannedDevice | null) => void): void;
+  stopScan(): void;
+
+  connect(deviceId: string, options: ConnectOptions): Promise<ConnectedDevice>;
+  /** Discovers services and characteristics; required before reading or writing. */
+  discover(deviceId: string): Promise<void>;
+  /** Lists the discovered services with their characteristics and descriptors. */
+  services(deviceId: string): Promise<GattService[]>;
+  disconnect(deviceId: string): Promise<void>;
+  /** Reports a link that went down, whether or not it was requested. */
+  onDisconnected(deviceId: string, listener: (error: Error | null) => void): Unsubscribe;
+  /** Reads the signal strength of a connected device, in dBm. */
+  readRssi(deviceId: string): Promise<number>;
+
+  read(deviceId: string, serviceUuid: string, characteristicUuid: string): Promise<Uint8Array>;
+  /** Writes with response, resolving once the peripheral acknowledged the value. */
+  write(deviceId: string, serviceUuid: string, characteristicUuid: string, value: Uint8Array): Promise<void>;
+  writeWithoutResponse(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    value: Uint8Array
+  ): Promise<void>;
+  /** Subscribes to notifications or indications of a characteristic. */
+  monitor(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    listener: (error: Error | null, value: Uint8Array | null) => void
+  ): Unsubscribe;
+}